@@ -0,0 +1,121 @@
+// Service worker: keeps the app shell and the user's trips available offline.
+// Registered from src/lib/serviceWorker.ts with the API origin in the `api` query param.
+
+const VERSION = 'v1'
+const SHELL_CACHE = `rideshare-shell-${VERSION}`
+// API responses are cached per user: `${API_CACHE_PREFIX}<user id>`
+const API_CACHE_PREFIX = `rideshare-api-${VERSION}-user-`
+
+// Dashboard pages sit behind the auth redirect, so they are cached as they are
+// visited rather than up front
+const SHELL_URLS = ['/', '/offline.html', '/icon.svg']
+
+const apiBase = new URL(self.location.href).searchParams.get('api')
+
+// Trip lists and details, so upcoming trips can still be viewed offline
+const CACHED_API_PATH = /\/trips(\/\d+)?$|\/users\/trips$/
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache =>
+      // One missing page shouldn't stop the rest of the shell from being cached
+      Promise.all(SHELL_URLS.map(url => cache.add(url).catch(() => undefined)))
+    )
+  )
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('rideshare-') && key !== SHELL_CACHE && !key.startsWith(API_CACHE_PREFIX))
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+function deleteApiCaches() {
+  return caches.keys().then(keys => Promise.all(
+    keys.filter(key => key.startsWith(API_CACHE_PREFIX)).map(key => caches.delete(key))
+  ))
+}
+
+// Cached API responses belong to whoever was signed in
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'CLEAR_API_CACHE') {
+    event.waitUntil(deleteApiCaches())
+  }
+})
+
+// The user id from the request's bearer token, so one user's trips are never
+// served to another from the cache. Same claim lib/auth reads.
+function getRequestUserId(request) {
+  const match = /^Bearer (.+)$/.exec(request.headers.get('Authorization') || '')
+  if (!match) return null
+  try {
+    const segment = match[1].split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const userId = JSON.parse(atob(segment)).user_id
+    return userId ? String(userId) : null
+  } catch {
+    return null
+  }
+}
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    // Never cache a login redirect in place of the page that was asked for
+    if (response.ok && !response.redirected) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    if (fallbackUrl) {
+      const fallback = await caches.match(fallbackUrl)
+      if (fallback) return fallback
+    }
+    throw error
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  if (apiBase && request.url.startsWith(apiBase)) {
+    const userId = getRequestUserId(request)
+    if (userId && CACHED_API_PATH.test(url.pathname)) {
+      event.respondWith(networkFirst(request, `${API_CACHE_PREFIX}${userId}`))
+    }
+    return
+  }
+
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/offline.html'))
+    return
+  }
+
+  // Build output is content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
@@ -1,5 +1,11 @@
+import { Suspense } from 'react'
 import LoginForm from '@/components/auth/LoginForm'
 
 export default function LoginPage() {
-  return <LoginForm />
+  // LoginForm reads the ?next= return URL via useSearchParams
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  )
 }
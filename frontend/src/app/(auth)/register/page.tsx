@@ -1,5 +1,11 @@
+import { Suspense } from 'react'
 import RegisterForm from '@/components/auth/RegisterForm'
 
 export default function RegisterPage() {
-  return <RegisterForm />
+  // RegisterForm reads the ?next= return URL via useSearchParams
+  return (
+    <Suspense>
+      <RegisterForm />
+    </Suspense>
+  )
 }
@@ -0,0 +1,11 @@
+import { Suspense } from 'react'
+import ResetPasswordForm from '@/components/auth/ResetPasswordForm'
+
+export default function ResetPasswordPage() {
+  // ResetPasswordForm reads the ?token= from the reset link via useSearchParams
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
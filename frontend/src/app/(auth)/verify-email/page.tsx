@@ -0,0 +1,11 @@
+import { Suspense } from 'react'
+import VerifyEmail from '@/components/auth/VerifyEmail'
+
+export default function VerifyEmailPage() {
+  // VerifyEmail reads the ?token= from the email link via useSearchParams
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import DashboardLayout from '@/app/dashboard/layout'
+import Loading from '@/components/common/Loading'
+import { useAuth } from '@/hooks/useAuth'
+import { hasAdminAccess } from '@/lib/auth'
+import { MESSAGES } from '@/lib/constants'
+import { ShieldAlert, Users, Car } from 'lucide-react'
+
+const ADMIN_NAV = [
+  { href: '/admin', label: 'Users', icon: Users },
+  { href: '/admin/trips', label: 'Trip Moderation', icon: Car }
+]
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const { user } = useAuth()
+  const pathname = usePathname()
+
+  return (
+    <DashboardLayout>
+      {/* The role comes from /auth/me, not the token, so wait for it before deciding */}
+      {!user ? (
+        <Loading />
+      ) : hasAdminAccess(user.role) ? (
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Admin Console</h1>
+              <p className="text-gray-600 mt-1">Manage users and moderate trip listings</p>
+            </div>
+            <nav className="flex space-x-2">
+              {ADMIN_NAV.map(({ href, label, icon: Icon }) => (
+                <Link
+                  key={href}
+                  href={href}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    pathname === href
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+          {children}
+        </div>
+      ) : (
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6 text-center">
+          <ShieldAlert className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access denied</h2>
+          <p className="text-gray-600 mb-6">{MESSAGES.ERROR.ADMIN_ONLY}</p>
+          <Link href="/dashboard" className="text-blue-600 hover:text-blue-500 font-medium">
+            Back to Dashboard
+          </Link>
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
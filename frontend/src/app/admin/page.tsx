@@ -0,0 +1,5 @@
+import UserTable from '@/components/admin/UserTable'
+
+export default function AdminUsersPage() {
+  return <UserTable />
+}
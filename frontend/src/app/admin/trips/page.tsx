@@ -0,0 +1,5 @@
+import TripModerationTable from '@/components/admin/TripModerationTable'
+
+export default function AdminTripsPage() {
+  return <TripModerationTable />
+}
@@ -1,43 +1,62 @@
 'use client'
 
 import { useAuth } from '@/hooks/useAuth'
-import { useRouter } from 'next/navigation'
+import { usePathname, useRouter } from 'next/navigation'
 import { useEffect } from 'react'
 import Header from '@/components/layout/Header'
+import SessionExpiryModal from '@/components/auth/SessionExpiryModal'
+import EmailVerificationBanner from '@/components/auth/EmailVerificationBanner'
+import ServerStatusBanner from '@/components/common/ServerStatusBanner'
+import OfflineBanner from '@/components/common/OfflineBanner'
 
 import Loading from '@/components/common/Loading'
+import ErrorAlert from '@/components/common/ErrorAlert'
+import { buildLoginUrl } from '@/lib/auth'
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
-  const { user, isLoading } = useAuth()
+  const { user, provisionalUser, authError, reloadUser, isLoading } = useAuth()
   const router = useRouter()
+  const pathname = usePathname()
+  const hasSession = !!user || !!provisionalUser
 
   useEffect(() => {
-    if (!isLoading && !user) {
-      router.push('/login')
+    if (!isLoading && !hasSession) {
+      router.push(buildLoginUrl(pathname))
     }
-  }, [user, isLoading, router])
+  }, [hasSession, isLoading, router, pathname])
 
-  if (isLoading) {
+  if (isLoading && !hasSession) {
     return <Loading />
   }
 
-  if (!user) {
+  if (!hasSession) {
     return null
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <OfflineBanner />
+      <ServerStatusBanner />
+      <EmailVerificationBanner />
       <div className="flex">
         
         <main className="flex-1 p-6">
+          {/* Pages render from the stored or provisional user; a failed /auth/me only costs the fresh copy */}
+          <ErrorAlert
+            error={authError}
+            title="Couldn't load your account"
+            onRetry={reloadUser}
+            className="mb-6"
+          />
           {children}
         </main>
       </div>
+      <SessionExpiryModal />
     </div>
   )
 }
@@ -2,15 +2,30 @@
 
 import { useState } from 'react'
 import { useAuth } from '@/hooks/useAuth'
-import { updateUserProfile } from '@/lib/api'
+import { sendOrQueue } from '@/lib/outbox'
+import { MESSAGES } from '@/lib/constants'
+import { User as UserType } from '@/types/user'
+import { FieldErrors, getErrorMessage, isApiError } from '@/lib/errors'
+import Loading from '@/components/common/Loading'
 import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
+import PhoneVerification from '@/components/auth/PhoneVerification'
+import SecuritySettings from '@/components/auth/SecuritySettings'
+import PrivacySettings from '@/components/auth/PrivacySettings'
 import { User, Mail, Phone, Camera } from 'lucide-react'
 
 export default function ProfilePage() {
+  const { user } = useAuth()
+  // The form starts from the full user, which may still be on its way from /auth/me
+  if (!user) return <Loading />
+  return <ProfileSettings key={user.id} />
+}
+
+function ProfileSettings() {
   const { user, setUser } = useAuth()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const [success, setSuccess] = useState('')
   const [formData, setFormData] = useState({
     name: user?.name || '',
@@ -21,14 +36,29 @@ export default function ProfilePage() {
     e.preventDefault()
     setIsLoading(true)
     setError('')
+    setFieldErrors({})
     setSuccess('')
 
     try {
-      const updatedUser = await updateUserProfile(formData)
-      setUser(updatedUser)
-      setSuccess('Profile updated successfully!')
-    } catch (err: any) {
-      setError(err.message)
+      const result = await sendOrQueue<UserType>({ type: 'updateProfile', payload: formData }, 'Update profile')
+      if (result.status === 'queued') {
+        // Show the new details now; the server copy arrives when the outbox replays
+        // The server un-verifies a changed number, so the queued copy must not look verified either
+        if (user) {
+          setUser({
+            ...user,
+            ...formData,
+            isVerified: user.isVerified && formData.phone === user.phone
+          })
+        }
+        setSuccess(MESSAGES.SUCCESS.QUEUED_OFFLINE)
+      } else {
+        setUser(result.result)
+        setSuccess('Profile updated successfully!')
+      }
+    } catch (err) {
+      if (isApiError(err)) setFieldErrors(err.fieldErrors)
+      setError(getErrorMessage(err, 'Failed to update profile'))
     } finally {
       setIsLoading(false)
     }
@@ -80,6 +110,7 @@ export default function ProfilePage() {
             label="Full Name"
             type="text"
             name="name"
+            error={fieldErrors.name}
             value={formData.name}
             onChange={handleChange}
             required
@@ -98,6 +129,7 @@ export default function ProfilePage() {
             label="Phone Number"
             type="tel"
             name="phone"
+            error={fieldErrors.phone}
             value={formData.phone}
             onChange={handleChange}
             required
@@ -116,7 +148,11 @@ export default function ProfilePage() {
         </form>
       </div>
 
-      
+      <PhoneVerification />
+
+      <SecuritySettings />
+
+      <PrivacySettings />
     </div>
   )
 }
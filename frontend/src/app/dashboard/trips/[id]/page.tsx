@@ -1,42 +1,52 @@
 'use client'
 
-import { useEffect, useState } from 'react'
 import { useParams } from 'next/navigation'
 import { getTrip } from '@/lib/api'
-import { Trip } from '@/types/trip'
 import Loading from '@/components/common/Loading'
+import ErrorAlert from '@/components/common/ErrorAlert'
+import { QUERY_KEYS } from '@/lib/queryCache'
+import { useQuery } from '@/hooks/useQuery'
+import { useTripPhase } from '@/hooks/useTripPhase'
+import { TRIP_CANCELLATION_REASONS } from '@/lib/constants'
+import { TRIP_PHASE_LABELS, TRIP_PHASE_STYLES } from '@/lib/tripStatus'
+import { VerifiedBadge } from '@/components/ui/VerifiedBadge'
+import TripRequests from '@/components/trips/TripRequests'
 import { MapPin, Clock, Users, DollarSign, User } from 'lucide-react'
 import { format } from 'date-fns'
+import { Trip, TripMatchStatus } from '@/types/trip'
 
-export default function TripDetailPage() {
-  const params = useParams()
-  const [trip, setTrip] = useState<Trip | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState('')
+const REQUEST_STATUS_LABELS: Record<TripMatchStatus, string> = {
+  pending: 'waiting for the driver',
+  confirmed: 'accepted',
+  declined: 'declined by the driver',
+  cancelled: 'cancelled'
+}
 
-  useEffect(() => {
-    const fetchTrip = async () => {
-      try {
-        const tripData = await getTrip(Number(params.id))
-        setTrip(tripData)
-      } catch (err: any) {
-        setError(err.message)
-      } finally {
-        setIsLoading(false)
-      }
-    }
+function TripStatusBadge({ trip }: { trip: Trip }) {
+  const { phase } = useTripPhase(trip)
+  return (
+    <span className={`px-3 py-1 rounded-full text-sm font-medium ${TRIP_PHASE_STYLES[phase]}`}>
+      {TRIP_PHASE_LABELS[phase]}
+    </span>
+  )
+}
 
-    if (params.id) {
-      fetchTrip()
-    }
-  }, [params.id])
+export default function TripDetailPage() {
+  const params = useParams()
+  const tripId = Number(params.id)
+  const { data: trip, isLoading, error, refetch } = useQuery(
+    QUERY_KEYS.trip(tripId),
+    signal => getTrip(tripId, signal),
+    { enabled: !!params.id }
+  )
 
   if (isLoading) return <Loading />
 
-  if (error) {
+  // With cached data on screen a failed background refresh isn't worth a full error page
+  if (error && !trip) {
     return (
-      <div className="text-center py-8">
-        <p className="text-red-600">{error}</p>
+      <div className="max-w-xl mx-auto py-8">
+        <ErrorAlert error={error} onRetry={refetch} />
       </div>
     )
   }
@@ -59,15 +69,19 @@ export default function TripDetailPage() {
               {trip.from} → {trip.to}
             </p>
           </div>
-          <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-            trip.status === 'active' ? 'bg-green-100 text-green-800' :
-            trip.status === 'completed' ? 'bg-blue-100 text-blue-800' :
-            'bg-red-100 text-red-800'
-          }`}>
-            {trip.status.charAt(0).toUpperCase() + trip.status.slice(1)}
-          </span>
+          <TripStatusBadge trip={trip} />
         </div>
 
+        {trip.status === 'cancelled' && trip.cancellationReason && (
+          <div className="mb-6 rounded-lg bg-red-50 p-4 text-sm text-red-800">
+            <p className="font-medium">
+              Cancelled by the driver{trip.cancelledAt && ` on ${format(new Date(trip.cancelledAt), 'PPP')}`}:{' '}
+              {TRIP_CANCELLATION_REASONS[trip.cancellationReason]}
+            </p>
+            {trip.cancellationNote && <p className="mt-1">&ldquo;{trip.cancellationNote}&rdquo;</p>}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-4">
             <div className="flex items-center text-gray-700">
@@ -84,6 +98,12 @@ export default function TripDetailPage() {
                 <p className="text-sm">
                   {format(new Date(trip.departureTime), 'PPP p')}
                 </p>
+                {trip.startedAt && (
+                  <p className="text-sm text-gray-500">Started at {format(new Date(trip.startedAt), 'p')}</p>
+                )}
+                {trip.completedAt && (
+                  <p className="text-sm text-gray-500">Completed {format(new Date(trip.completedAt), 'PPP p')}</p>
+                )}
               </div>
             </div>
             <div className="flex items-center text-gray-700">
@@ -109,6 +129,21 @@ export default function TripDetailPage() {
             <p className="text-gray-700 text-sm">
               {trip.description || 'No description provided'}
             </p>
+            {trip.verifiedPassengersOnly && (
+              <p className="mt-3 text-sm text-green-700">
+                Only passengers with a verified phone number can join this trip.
+              </p>
+            )}
+            {trip.requiresApproval && (
+              <p className="mt-3 text-sm text-amber-700">
+                The driver approves every passenger on this trip.
+              </p>
+            )}
+            {trip.userRole !== 'passenger' && trip.requestStatus && trip.requestStatus !== 'confirmed' && (
+              <p className="mt-3 text-sm font-medium text-gray-900">
+                Your request: {REQUEST_STATUS_LABELS[trip.requestStatus]}
+              </p>
+            )}
           </div>
         </div>
 
@@ -120,7 +155,10 @@ export default function TripDetailPage() {
                 <User className="h-5 w-5 text-gray-600" />
               </div>
               <div className="ml-3">
-                <p className="font-medium text-gray-900">{trip.driver.name}</p>
+                <p className="font-medium text-gray-900 flex items-center gap-2">
+                  {trip.driver.name}
+                  {trip.driver.isVerified && <VerifiedBadge />}
+                </p>
                 <p className="text-sm text-gray-600">{trip.driver.phone}</p>
                 <p className="text-sm text-gray-600">{trip.driver.email}</p>
               </div>
@@ -128,6 +166,15 @@ export default function TripDetailPage() {
           </div>
         )}
       </div>
+
+      {trip.userRole === 'driver' && trip.requiresApproval && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Join Requests ({trip.pendingRequests ?? 0})
+          </h2>
+          <TripRequests trip={trip} />
+        </div>
+      )}
     </div>
   )
 }
@@ -3,11 +3,16 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import CreateTripForm from '@/components/trips/CreateTripForm'
-import { ArrowLeft, MapPin, Users, Calendar, IndianRupee, Info, Shield, Star } from 'lucide-react'
+import ResendVerificationButton from '@/components/auth/ResendVerificationButton'
+import { useAuth } from '@/hooks/useAuth'
+import { needsEmailVerification } from '@/lib/auth'
+import { MESSAGES } from '@/lib/constants'
+import { ArrowLeft, MapPin, Users, Calendar, IndianRupee, Info, Shield, Star, MailWarning } from 'lucide-react'
 import Link from 'next/link'
 
 export default function CreateTripPage() {
   const router = useRouter()
+  const { user } = useAuth()
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const handleFormSubmit = (isLoading: boolean) => {
@@ -67,7 +72,18 @@ export default function CreateTripPage() {
 
               {/* Form Content with Better Spacing */}
               <div className="p-6">
-                <CreateTripForm  />
+                {needsEmailVerification(user) ? (
+                  <div className="text-center py-8">
+                    <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                      <MailWarning className="h-6 w-6 text-amber-600" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">Verify your email first</h3>
+                    <p className="text-gray-600 text-sm mb-4">{MESSAGES.ERROR.EMAIL_NOT_VERIFIED}</p>
+                    <ResendVerificationButton className="text-sm text-blue-600" />
+                  </div>
+                ) : (
+                  <CreateTripForm  />
+                )}
               </div>
             </div>
           </div>
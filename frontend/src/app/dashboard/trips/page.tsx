@@ -1,47 +1,20 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { useAuth } from '@/hooks/useAuth'
-import { getTrips } from '@/lib/api'
+import { useTrips } from '@/hooks/useTrips'
 import { Trip } from '@/types/trip'
 import TripCard from '@/components/trips/TripCard'
+import ErrorAlert from '@/components/common/ErrorAlert'
 import { Button } from '@/components/ui/Button'
 import { Plus, MapPin, Calendar, Users, ArrowLeft, Car } from 'lucide-react'
 import Link from 'next/link'
 
 export default function TripsPage() {
   const { user } = useAuth()
-  // ✅ Initialize as empty array instead of undefined/null
-  const [trips, setTrips] = useState<Trip[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState('')
+  const { trips, isLoading, error, setTrips, refetch } = useTrips()
   const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all')
 
-  useEffect(() => {
-    loadTrips()
-  }, [])
-
-  const loadTrips = async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-      console.log('Loading trips...')
-      
-      const tripsData = await getTrips()
-      console.log('Trips loaded:', tripsData)
-      
-      // ✅ Ensure tripsData is always an array
-      setTrips(Array.isArray(tripsData) ? tripsData : [])
-    } catch (err: any) {
-      console.error('Failed to load trips:', err)
-      setError(err.message || 'Failed to fetch trips')
-      // ✅ Set empty array on error
-      setTrips([])
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
   const handleTripUpdate = (updatedTrip: Trip) => {
     setTrips(prevTrips => 
       prevTrips.map(trip => 
@@ -142,18 +115,12 @@ export default function TripsPage() {
         </div>
 
         {/* Error State */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
-            <p className="font-medium">Error loading trips</p>
-            <p className="text-sm mt-1">{error}</p>
-            <button
-              onClick={loadTrips}
-              className="mt-2 text-sm text-red-600 hover:text-red-700 underline"
-            >
-              Try again
-            </button>
-          </div>
-        )}
+        <ErrorAlert
+          error={error}
+          title="Error loading trips"
+          onRetry={refetch}
+          className="mb-6"
+        />
 
         {/* Filter Tabs */}
         <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100 mb-6">
@@ -1,10 +1,14 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { searchTrips, getTrips, joinTrip } from '@/lib/api'
+import { useState } from 'react'
+import { searchTrips } from '@/lib/api'
+import { useTrips } from '@/hooks/useTrips'
+import { useQuery } from '@/hooks/useQuery'
+import { QUERY_KEYS, setQueryData } from '@/lib/queryCache'
 import { Trip } from '@/types/trip'
 import SearchForm from '@/components/trips/SearchForm'
 import TripCard from '@/components/trips/TripCard'
+import ErrorAlert from '@/components/common/ErrorAlert'
 import { MapPin, Search, Users, Calendar, ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
 
@@ -16,79 +20,41 @@ interface SearchFormData {
 }
 
 export default function SearchPage() {
-  // ✅ Initialize as empty array to prevent null errors
-  const [trips, setTrips] = useState<Trip[]>([])
-  const [isLoading, setIsLoading] = useState(false)
-  const [isSearching, setIsSearching] = useState(false)
-  const [error, setError] = useState('')
-  const [hasSearched, setHasSearched] = useState(false)
+  // Both the unfiltered list and search results live in the shared cache, so
+  // optimistic updates from a TripCard reach whichever one is on screen
+  const { trips: allTrips, isLoading, error: loadError, setTrips: setAllTrips, refetch } = useTrips()
+  const [searchParams, setSearchParams] = useState<SearchFormData | null>(null)
+  const searchKey = QUERY_KEYS.tripSearch(searchParams ?? {})
+  const search = useQuery(
+    searchKey,
+    signal => searchTrips(searchParams as SearchFormData, signal),
+    { enabled: searchParams !== null }
+  )
+
+  const hasSearched = searchParams !== null
+  // ✅ Ensure results is always an array
+  const searchResults = Array.isArray(search.data) ? search.data : []
+  const isSearching = hasSearched && search.isLoading
 
-  // Load all trips initially
-  useEffect(() => {
-    loadAllTrips()
-  }, [])
+  const trips = hasSearched ? searchResults : allTrips
+  const error = hasSearched ? search.error : loadError
+  const isBusy = hasSearched ? isSearching : isLoading
 
-  const loadAllTrips = async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-      const allTrips = await getTrips()
-      // ✅ Ensure allTrips is always an array
-      setTrips(Array.isArray(allTrips) ? allTrips : [])
-    } catch (err: any) {
-      console.error('Failed to load trips:', err)
-      setError(err.message || 'Failed to load trips')
-      setTrips([])
-    } finally {
-      setIsLoading(false)
-    }
+  const showAllTrips = () => {
+    setSearchParams(null)
   }
 
   const handleSearch = async (searchData: SearchFormData) => {
-    try {
-      setIsSearching(true)
-      setError('')
-      setHasSearched(true)
-      
-      console.log('Searching trips with:', searchData)
-      
-      const results = await searchTrips(searchData)
-      console.log('Search results:', results)
-      
-      // ✅ Ensure results is always an array
-      setTrips(Array.isArray(results) ? results : [])
-    } catch (err: any) {
-      console.error('Search error:', err)
-      setError(err.message || 'Search failed')
-      setTrips([])
-    } finally {
-      setIsSearching(false)
-    }
+    console.log('Searching trips with:', searchData)
+    setSearchParams(searchData)
   }
 
+  // Swap in the server's copy once an edit has been saved
   const handleTripUpdate = (updatedTrip: Trip) => {
-    setTrips(prevTrips => 
-      prevTrips.map(trip => 
-        trip.id === updatedTrip.id ? updatedTrip : trip
-      )
-    )
-  }
-
-  const handleJoinTrip = async (tripId: number) => {
-    try {
-      await joinTrip(tripId)
-      
-      setTrips(prevTrips =>
-        prevTrips.map(trip => 
-          trip.id === tripId 
-            ? { ...trip, currentPassengers: trip.currentPassengers + 1 }
-            : trip
-        )
-      )
-    } catch (err: any) {
-      console.error('Join trip error:', err)
-      setError(err.message || 'Failed to join trip')
-    }
+    const replace = (prevTrips: Trip[]) =>
+      prevTrips.map(trip => trip.id === updatedTrip.id ? updatedTrip : trip)
+    setAllTrips(replace)
+    if (hasSearched) setQueryData<Trip[]>(searchKey, (previous = []) => replace(previous))
   }
 
   return (
@@ -154,7 +120,7 @@ export default function SearchPage() {
                       </span>
                     </div>
                     <button
-                      onClick={loadAllTrips}
+                      onClick={showAllTrips}
                       className="text-xs text-blue-600 hover:text-blue-700 underline"
                     >
                       Show all
@@ -164,21 +130,11 @@ export default function SearchPage() {
               )}
 
               {/* Error Display */}
-              {error && (
-                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <Search className="h-4 w-4" />
-                    <p className="font-medium text-sm">Search Error</p>
-                  </div>
-                  <p className="text-xs mt-1">{error}</p>
-                  <button
-                    onClick={() => hasSearched ? handleSearch({} as SearchFormData) : loadAllTrips()}
-                    className="mt-2 text-xs text-red-600 hover:text-red-700 underline"
-                  >
-                    Try again
-                  </button>
-                </div>
-              )}
+              <ErrorAlert
+                error={error}
+                title="Search Error"
+                onRetry={hasSearched ? search.refetch : refetch}
+              />
             </div>
           </div>
 
@@ -204,7 +160,7 @@ export default function SearchPage() {
             </div>
 
             {/* Loading State */}
-            {(isLoading || isSearching) ? (
+            {isBusy ? (
               <div className="bg-white rounded-xl shadow-lg p-8">
                 <div className="flex items-center justify-center">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -227,7 +183,6 @@ export default function SearchPage() {
                         trip={trip}
                         onUpdate={handleTripUpdate}
                         showActions={true}
-                        onJoin={handleJoinTrip}
                       />
                     </div>
                   ))}
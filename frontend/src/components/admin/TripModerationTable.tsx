@@ -0,0 +1,212 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import Link from 'next/link'
+import { Button } from '@/components/ui/Button'
+import { Modal } from '@/components/ui/Modal'
+import { cancelTripAsAdmin, getAdminTrips } from '@/lib/api'
+import { getErrorMessage, isCancelledError } from '@/lib/errors'
+import { useLatestRequest } from '@/hooks/useLatestRequest'
+import { TRIP_STATUS } from '@/lib/constants'
+import { getTripPhase, TRIP_PHASE_LABELS, TRIP_PHASE_STYLES } from '@/lib/tripStatus'
+import { Trip } from '@/types/trip'
+import { Ban } from 'lucide-react'
+
+export default function TripModerationTable() {
+  const [trips, setTrips] = useState<Trip[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [filter, setFilter] = useState<'all' | Trip['status']>(TRIP_STATUS.ACTIVE)
+  const [tripToCancel, setTripToCancel] = useState<Trip | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [isCancelling, setIsCancelling] = useState(false)
+  const nextSignal = useLatestRequest()
+
+  const loadTrips = useCallback(async () => {
+    const signal = nextSignal()
+    try {
+      setIsLoading(true)
+      setError('')
+      const tripsData = await getAdminTrips(signal)
+      if (signal.aborted) return
+      setTrips(Array.isArray(tripsData) ? tripsData : [])
+    } catch (err) {
+      if (isCancelledError(err)) return
+      setError(getErrorMessage(err, 'Failed to fetch trips'))
+      setTrips([])
+    } finally {
+      if (!signal.aborted) setIsLoading(false)
+    }
+  }, [nextSignal])
+
+  useEffect(() => {
+    loadTrips()
+  }, [loadTrips])
+
+  const closeCancelModal = () => {
+    setTripToCancel(null)
+    setCancelReason('')
+  }
+
+  const handleCancel = async () => {
+    if (!tripToCancel || !cancelReason.trim()) return
+
+    setIsCancelling(true)
+    try {
+      const updatedTrip = await cancelTripAsAdmin(tripToCancel.id, cancelReason.trim())
+      setTrips(prev => prev.map(trip =>
+        trip.id === updatedTrip.id ? { ...trip, ...updatedTrip } : trip
+      ))
+      closeCancelModal()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to cancel trip'))
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  const filteredTrips = trips.filter(trip => filter === 'all' || trip.status === filter)
+
+  return (
+    <div className="bg-white rounded-lg shadow-md">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">Trip Listings</h2>
+        <div className="flex space-x-2">
+          {(['all', ...Object.values(TRIP_STATUS)] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                filter === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'all' ? 'All' : TRIP_PHASE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="m-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <p>{error}</p>
+          <button
+            onClick={loadTrips}
+            className="mt-1 text-sm text-red-600 hover:text-red-700 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Route</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Driver</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Departure</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Seats</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Status</th>
+              <th className="px-6 py-3 text-right font-medium text-gray-600">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-600">Loading trips...</td>
+              </tr>
+            ) : filteredTrips.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No trips to show.</td>
+              </tr>
+            ) : (
+              filteredTrips.map(trip => (
+                <tr key={trip.id}>
+                  <td className="px-6 py-4">
+                    <Link href={`/dashboard/trips/${trip.id}`} className="font-medium text-blue-600 hover:underline">
+                      {trip.from} → {trip.to}
+                    </Link>
+                    {trip.description && (
+                      <p className="text-gray-500 truncate max-w-xs">{trip.description}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-gray-700">
+                    {trip.driver?.name || `User #${trip.driverId}`}
+                  </td>
+                  <td className="px-6 py-4 text-gray-700">
+                    {format(new Date(trip.departureTime), 'PP p')}
+                  </td>
+                  <td className="px-6 py-4 text-gray-700">
+                    {trip.currentPassengers}/{trip.maxPassengers}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TRIP_PHASE_STYLES[getTripPhase(trip)]}`}>
+                      {TRIP_PHASE_LABELS[getTripPhase(trip)]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {trip.status === TRIP_STATUS.ACTIVE && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTripToCancel(trip)}
+                        className="text-red-600"
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Modal
+        isOpen={!!tripToCancel}
+        onClose={closeCancelModal}
+        title="Cancel Listing"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Cancelling <strong>{tripToCancel?.from} → {tripToCancel?.to}</strong> removes it from search
+            and notifies the driver and any passengers.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. Spam listing, abusive description..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={handleCancel}
+              disabled={isCancelling || !cancelReason.trim()}
+              className="flex-1 bg-red-500 hover:bg-red-600"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel Trip'}
+            </Button>
+            <Button
+              onClick={closeCancelModal}
+              variant="outline"
+              className="flex-1"
+            >
+              Keep Trip
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
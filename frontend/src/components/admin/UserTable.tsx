@@ -0,0 +1,244 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { VerifiedBadge } from '@/components/ui/VerifiedBadge'
+import { getAdminUsers, setUserSuspended, verifyUserAsAdmin } from '@/lib/api'
+import { getErrorMessage, isCancelledError } from '@/lib/errors'
+import { PAGINATION } from '@/lib/constants'
+import { UserRole, UserSearchCriteria, UserWithRole } from '@/types/user'
+import { Search, ChevronLeft, ChevronRight } from 'lucide-react'
+
+export default function UserTable() {
+  const [users, setUsers] = useState<UserWithRole[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [criteria, setCriteria] = useState<UserSearchCriteria>({})
+  const [draftCriteria, setDraftCriteria] = useState<UserSearchCriteria>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [pendingUserId, setPendingUserId] = useState<number | null>(null)
+
+  const pageSize = PAGINATION.DEFAULT_PAGE_SIZE
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  useEffect(() => {
+    // Paging quickly fires several requests; only the latest page may update the table
+    const controller = new AbortController()
+
+    const loadUsers = async () => {
+      try {
+        setIsLoading(true)
+        setError('')
+        const response = await getAdminUsers(criteria, page, pageSize, controller.signal)
+        if (controller.signal.aborted) return
+        setUsers(Array.isArray(response.users) ? response.users : [])
+        setTotal(response.total || 0)
+      } catch (err) {
+        if (isCancelledError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch users'))
+        setUsers([])
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    loadUsers()
+    return () => controller.abort()
+  }, [criteria, page, pageSize])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    // Drop empty fields so they are not sent as blank filters
+    const cleaned = Object.fromEntries(
+      Object.entries(draftCriteria).filter(([, value]) => value !== '' && value !== undefined)
+    ) as UserSearchCriteria
+    setPage(1)
+    setCriteria(cleaned)
+  }
+
+  const replaceUser = (updatedUser: UserWithRole) => {
+    setUsers(prev => prev.map(u => (u.id === updatedUser.id ? { ...u, ...updatedUser } : u)))
+  }
+
+  const handleVerify = async (userId: number) => {
+    setPendingUserId(userId)
+    try {
+      replaceUser(await verifyUserAsAdmin(userId))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to verify user'))
+    } finally {
+      setPendingUserId(null)
+    }
+  }
+
+  const handleToggleSuspended = async (target: UserWithRole) => {
+    setPendingUserId(target.id)
+    try {
+      replaceUser(await setUserSuspended(target.id, !target.isSuspended))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update user status'))
+    } finally {
+      setPendingUserId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md">
+      {/* Search */}
+      <form onSubmit={handleSearch} className="p-6 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <Input
+          label="Name"
+          value={draftCriteria.name || ''}
+          onChange={(e) => setDraftCriteria(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Search by name"
+        />
+        <Input
+          label="Email"
+          value={draftCriteria.email || ''}
+          onChange={(e) => setDraftCriteria(prev => ({ ...prev, email: e.target.value }))}
+          placeholder="Search by email"
+        />
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Verification</label>
+          <select
+            value={draftCriteria.isVerified === undefined ? '' : String(draftCriteria.isVerified)}
+            onChange={(e) => setDraftCriteria(prev => ({
+              ...prev,
+              isVerified: e.target.value === '' ? undefined : e.target.value === 'true'
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All</option>
+            <option value="true">Verified</option>
+            <option value="false">Unverified</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Role</label>
+          <select
+            value={draftCriteria.role || ''}
+            onChange={(e) => setDraftCriteria(prev => ({
+              ...prev,
+              role: (e.target.value || undefined) as UserRole | undefined
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All</option>
+            {Object.values(UserRole).map(role => (
+              <option key={role} value={role}>
+                {role.charAt(0).toUpperCase() + role.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" disabled={isLoading}>
+          <Search className="h-4 w-4 mr-1" />
+          Search
+        </Button>
+      </form>
+
+      {error && (
+        <div className="m-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">User</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Role</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Joined</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600">Status</th>
+              <th className="px-6 py-3 text-right font-medium text-gray-600">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-600">Loading users...</td>
+              </tr>
+            ) : users.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">No users match these filters.</td>
+              </tr>
+            ) : (
+              users.map(u => (
+                <tr key={u.id}>
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {u.name}
+                      {u.isVerified && <VerifiedBadge />}
+                    </p>
+                    <p className="text-gray-500">{u.email}</p>
+                  </td>
+                  <td className="px-6 py-4 capitalize text-gray-700">{u.role}</td>
+                  <td className="px-6 py-4 text-gray-700">{format(new Date(u.createdAt), 'PP')}</td>
+                  <td className="px-6 py-4">
+                    {u.isSuspended ? (
+                      <span className="bg-red-100 text-red-700 rounded-full px-2 py-0.5 text-xs font-medium">Suspended</span>
+                    ) : (
+                      <span className="bg-green-100 text-green-700 rounded-full px-2 py-0.5 text-xs font-medium">Active</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex justify-end gap-2">
+                      {!u.isVerified && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleVerify(u.id)}
+                          disabled={pendingUserId === u.id}
+                        >
+                          Verify
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={u.isSuspended ? 'outline' : 'secondary'}
+                        onClick={() => handleToggleSuspended(u)}
+                        disabled={pendingUserId === u.id || u.role === UserRole.ADMIN}
+                      >
+                        {u.isSuspended ? 'Unsuspend' : 'Suspend'}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 text-sm text-gray-600">
+        <span>
+          {total} user{total === 1 ? '' : 's'} · Page {page} of {totalPages}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page <= 1 || isLoading}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages || isLoading}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
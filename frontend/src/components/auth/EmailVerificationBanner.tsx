@@ -0,0 +1,26 @@
+'use client'
+
+import { MailWarning } from 'lucide-react'
+import { useAuth } from '@/hooks/useAuth'
+import { needsEmailVerification } from '@/lib/auth'
+import ResendVerificationButton from '@/components/auth/ResendVerificationButton'
+
+export default function EmailVerificationBanner() {
+  const { user } = useAuth()
+
+  if (!needsEmailVerification(user)) return null
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-amber-800">
+        <div className="flex items-center gap-2 flex-1">
+          <MailWarning className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Please verify <strong>{user?.email}</strong> to start creating trips. Check your inbox for the link.
+          </span>
+        </div>
+        <ResendVerificationButton />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { requestPasswordReset } from '@/lib/api'
+import { getErrorMessage } from '@/lib/errors'
+import { MESSAGES } from '@/lib/constants'
+import { Mail, ArrowLeft, CheckCircle } from 'lucide-react'
+
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [isSubmitted, setIsSubmitted] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!email.trim()) {
+      setError('Please enter your email')
+      return
+    }
+
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await requestPasswordReset(email.trim())
+      setIsSubmitted(true)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to request password reset'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <div className="text-center mb-8">
+            <h2 className="text-3xl font-bold text-gray-900">Forgot Password?</h2>
+            <p className="mt-2 text-gray-600">
+              Enter your email and we&apos;ll send you a reset code
+            </p>
+          </div>
+
+          {isSubmitted ? (
+            <div className="space-y-6">
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-start gap-2">
+                <CheckCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <p>{MESSAGES.SUCCESS.PASSWORD_RESET_REQUESTED}</p>
+              </div>
+              <Link href="/reset-password" className="block">
+                <Button className="w-full">I have a reset code</Button>
+              </Link>
+              <button
+                type="button"
+                onClick={() => setIsSubmitted(false)}
+                className="w-full text-sm text-blue-600 hover:text-blue-500"
+              >
+                Didn&apos;t get it? Send again
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              <Input
+                label="Email"
+                type="email"
+                name="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                placeholder="Enter your email"
+                icon={<Mail className="h-4 w-4" />}
+              />
+
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full"
+              >
+                {isLoading ? 'Sending...' : 'Send Reset Code'}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link
+              href="/login"
+              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-500 font-medium"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import LoginForm from '@/components/auth/LoginForm'
+import { getStoredRefreshToken, getStoredToken } from '@/lib/auth'
+import { MOCK_PASSWORD } from '@/mocks'
+import { mockRouter, setMockUrl } from '@/test/navigation'
+import { renderWithProviders } from '@/test/render'
+
+describe('LoginForm', () => {
+  it('asks for both fields before calling the API', async () => {
+    const { container } = renderWithProviders(<LoginForm />)
+
+    // Bypass the browser's required-field check to reach the form's own validation
+    fireEvent.submit(container.querySelector('form')!)
+
+    expect(await screen.findByText('Please fill in all fields')).toBeInTheDocument()
+    expect(getStoredToken()).toBeNull()
+  })
+
+  it('signs in, stores both tokens and goes to the requested page', async () => {
+    setMockUrl('/login?next=/dashboard/trips')
+    const { user } = renderWithProviders(<LoginForm />)
+
+    await user.type(screen.getByLabelText('Email'), 'asha@example.com')
+    await user.type(screen.getByLabelText('Password'), MOCK_PASSWORD)
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+
+    await waitFor(() => expect(mockRouter.replace).toHaveBeenCalledWith('/dashboard/trips'))
+    expect(getStoredToken()).toBeTruthy()
+    expect(getStoredRefreshToken()).toBeTruthy()
+  })
+
+  it('ignores a redirect to another site', async () => {
+    setMockUrl('/login?next=https://evil.example.com')
+    const { user } = renderWithProviders(<LoginForm />)
+
+    await user.type(screen.getByLabelText('Email'), 'asha@example.com')
+    await user.type(screen.getByLabelText('Password'), MOCK_PASSWORD)
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+
+    await waitFor(() => expect(mockRouter.replace).toHaveBeenCalledWith('/dashboard'))
+  })
+
+  it('shows the server message for wrong credentials and stays on the form', async () => {
+    const { user } = renderWithProviders(<LoginForm />)
+
+    await user.type(screen.getByLabelText('Email'), 'asha@example.com')
+    await user.type(screen.getByLabelText('Password'), 'not-the-password')
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+
+    expect(await screen.findByText('Invalid email or password.')).toBeInTheDocument()
+    expect(getStoredToken()).toBeNull()
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeEnabled()
+  })
+})
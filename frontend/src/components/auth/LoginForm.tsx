@@ -1,10 +1,12 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { useAuth } from '@/hooks/useAuth'
+import { getSafeRedirectPath } from '@/lib/auth'
+import { getErrorMessage } from '@/lib/errors'
 import { Mail, Lock, Eye, EyeOff } from 'lucide-react'
 import Link from 'next/link'
 
@@ -22,8 +24,18 @@ export default function LoginForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   
-  const { login } = useAuth()
+  const { login, user } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const nextParam = searchParams.get('next')
+  const redirectTo = getSafeRedirectPath(nextParam)
+
+  // A session restored in the background (e.g. by a token refresh) skips the form
+  useEffect(() => {
+    if (user && !isLoading) {
+      router.replace(redirectTo)
+    }
+  }, [user, isLoading, redirectTo, router])
 
   const handleSubmit = async (e: React.FormEvent) => {
   console.log('=== LOGIN FORM SUBMISSION START ===');
@@ -42,16 +54,16 @@ export default function LoginForm() {
   try {
     console.log('Calling login function...');
     await login(formData.email, formData.password);
-    console.log('Login successful, navigating to dashboard...');
+    console.log('Login successful, navigating to:', redirectTo);
     
     // Force navigation with a small delay to ensure state updates
     setTimeout(() => {
-    router.replace('/dashboard');
+    router.replace(redirectTo);
   }, 200);
     
-  } catch (err: any) {
+  } catch (err) {
     console.error('Login form error:', err);
-    setError(err.message || err.toString() || 'Login failed');
+    setError(getErrorMessage(err, 'Login failed'));
   } finally {
     setIsLoading(false);
     console.log('=== LOGIN FORM SUBMISSION END ===');
@@ -125,9 +137,9 @@ export default function LoginForm() {
                 />
                 <span className="ml-2 text-sm text-gray-600">Remember me</span>
               </label>
-              <a href="#" className="text-sm text-blue-600 hover:text-blue-500">
+              <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-500">
                 Forgot password?
-              </a>
+              </Link>
             </div>
 
             <Button
@@ -142,7 +154,10 @@ export default function LoginForm() {
           <div className="mt-6 text-center">
             <p className="text-gray-600">
               Don't have an account?{' '}
-              <Link href="/register" className="text-blue-600 hover:text-blue-500 font-medium">
+              <Link
+                href={nextParam ? `/register?next=${encodeURIComponent(nextParam)}` : '/register'}
+                className="text-blue-600 hover:text-blue-500 font-medium"
+              >
                 Sign up
               </Link>
             </p>
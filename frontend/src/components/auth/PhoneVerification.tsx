@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { VerifiedBadge } from '@/components/ui/VerifiedBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { requestPhoneOtp, verifyPhoneOtp } from '@/lib/api'
+import { getErrorMessage, isApiError } from '@/lib/errors'
+import { MESSAGES, VALIDATION } from '@/lib/constants'
+import { ShieldCheck, KeyRound } from 'lucide-react'
+
+export default function PhoneVerification() {
+  const { user, setUser } = useAuth()
+  const [isCodeSent, setIsCodeSent] = useState(false)
+  const [code, setCode] = useState('')
+  const [cooldown, setCooldown] = useState(0)
+  const [attemptsLeft, setAttemptsLeft] = useState<number>(VALIDATION.OTP_MAX_ATTEMPTS)
+  const [isSending, setIsSending] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  // Resend cooldown countdown
+  useEffect(() => {
+    if (cooldown <= 0) return
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [cooldown])
+
+  if (!user) return null
+
+  const handleSendCode = async () => {
+    if (!user.phone) {
+      setError('Add a phone number to your profile first')
+      return
+    }
+
+    setIsSending(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await requestPhoneOtp(user.phone)
+      setIsCodeSent(true)
+      setCode('')
+      setAttemptsLeft(VALIDATION.OTP_MAX_ATTEMPTS)
+      setCooldown(VALIDATION.OTP_RESEND_COOLDOWN_SECONDS)
+      setSuccess(response.message || `We sent a code to ${user.phone}`)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send verification code'))
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (attemptsLeft <= 0) {
+      setError(MESSAGES.ERROR.OTP_ATTEMPTS_EXCEEDED)
+      return
+    }
+
+    if (code.length !== VALIDATION.OTP_LENGTH) {
+      setError(`Enter the ${VALIDATION.OTP_LENGTH}-digit code`)
+      return
+    }
+
+    setIsVerifying(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const updatedUser = await verifyPhoneOtp(user.phone, code)
+      setUser({ ...user, ...updatedUser, isVerified: true })
+      setIsCodeSent(false)
+      setSuccess(MESSAGES.SUCCESS.PHONE_VERIFIED)
+    } catch (err) {
+      // Only a rejected code uses up an attempt, not a dropped connection
+      if (isApiError(err) && err.kind !== 'validation') {
+        setError(err.message)
+        return
+      }
+      const remaining = attemptsLeft - 1
+      setAttemptsLeft(remaining)
+      setError(
+        remaining > 0
+          ? `${getErrorMessage(err, 'Incorrect code')}. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+          : MESSAGES.ERROR.OTP_ATTEMPTS_EXCEEDED
+      )
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCode(e.target.value.replace(/\D/g, '').slice(0, VALIDATION.OTP_LENGTH))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Phone Verification</h2>
+        </div>
+        {user.isVerified && <VerifiedBadge />}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-4">
+          {success}
+        </div>
+      )}
+
+      {user.isVerified ? (
+        <p className="text-sm text-gray-600">
+          Your phone number {user.phone} is verified. Other riders see a verified badge on your trips.
+          Changing your number will require verifying again.
+        </p>
+      ) : isCodeSent ? (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <Input
+            label="Verification Code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            name="code"
+            value={code}
+            onChange={handleCodeChange}
+            placeholder={'•'.repeat(VALIDATION.OTP_LENGTH)}
+            disabled={attemptsLeft <= 0}
+            icon={<KeyRound className="h-4 w-4" />}
+          />
+
+          <div className="flex gap-4">
+            <Button
+              type="submit"
+              disabled={isVerifying || attemptsLeft <= 0}
+              className="flex-1"
+            >
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSendCode}
+              disabled={isSending || cooldown > 0}
+              className="flex-1"
+            >
+              {cooldown > 0 ? `Resend in ${cooldown}s` : isSending ? 'Sending...' : 'Resend Code'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Verify {user.phone || 'your phone number'} so drivers and passengers know they can trust your contact details.
+          </p>
+          <Button
+            onClick={handleSendCode}
+            disabled={isSending || !user.phone}
+          >
+            {isSending ? 'Sending...' : 'Send Verification Code'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Modal } from '@/components/ui/Modal'
+import { useAuth } from '@/hooks/useAuth'
+import { deleteAccount, getUserTrips } from '@/lib/api'
+import { getErrorMessage } from '@/lib/errors'
+import { ACCOUNT, TRIP_STATUS } from '@/lib/constants'
+import {
+  activityToCsv,
+  buildUserDataExport,
+  downloadFile,
+  tripsToCsv
+} from '@/lib/dataExport'
+import { Trip } from '@/types/trip'
+import { Download, Trash2, Lock, AlertTriangle } from 'lucide-react'
+
+export default function PrivacySettings() {
+  const { user, logout } = useAuth()
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState('')
+
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
+  const [password, setPassword] = useState('')
+  const [activeDrivenTrips, setActiveDrivenTrips] = useState<Trip[]>([])
+  const [isLoadingTrips, setIsLoadingTrips] = useState(false)
+  const [tripsError, setTripsError] = useState('')
+  const [confirmCancelTrips, setConfirmCancelTrips] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState('')
+  const [scheduledDeletionAt, setScheduledDeletionAt] = useState<string | null>(null)
+
+  if (!user) return null
+
+  const handleExport = async (formatType: 'json' | 'csv') => {
+    setIsExporting(true)
+    setExportError('')
+    try {
+      const data = await buildUserDataExport()
+      const stamp = format(new Date(), 'yyyy-MM-dd')
+      if (formatType === 'json') {
+        downloadFile(`rideshare-data-${stamp}.json`, JSON.stringify(data, null, 2), 'application/json')
+      } else {
+        downloadFile(`rideshare-trips-${stamp}.csv`, tripsToCsv(data), 'text/csv')
+        downloadFile(`rideshare-activity-${stamp}.csv`, activityToCsv(data), 'text/csv')
+      }
+    } catch (err) {
+      setExportError(getErrorMessage(err, 'Failed to export your data'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const loadActiveDrivenTrips = async () => {
+    setIsLoadingTrips(true)
+    setTripsError('')
+    try {
+      // Trips the user still drives need a decision before the account can go
+      const trips = await getUserTrips()
+      const now = new Date()
+      setActiveDrivenTrips(
+        (Array.isArray(trips) ? (trips as Trip[]) : []).filter(trip =>
+          trip.driverId === user.id &&
+          trip.status === TRIP_STATUS.ACTIVE &&
+          new Date(trip.departureTime) > now
+        )
+      )
+    } catch (err) {
+      setTripsError(getErrorMessage(err, 'Failed to check your upcoming trips'))
+    } finally {
+      setIsLoadingTrips(false)
+    }
+  }
+
+  const openDeleteModal = () => {
+    setIsDeleteModalOpen(true)
+    setDeleteError('')
+    loadActiveDrivenTrips()
+  }
+
+  const closeDeleteModal = () => {
+    setIsDeleteModalOpen(false)
+    setPassword('')
+    setConfirmCancelTrips(false)
+    setDeleteError('')
+  }
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!password) {
+      setDeleteError('Please enter your password to confirm')
+      return
+    }
+    if (activeDrivenTrips.length > 0 && !confirmCancelTrips) {
+      setDeleteError('Please confirm what should happen to the trips you are driving')
+      return
+    }
+
+    setIsDeleting(true)
+    setDeleteError('')
+    try {
+      const response = await deleteAccount({
+        password,
+        cancelActiveTrips: activeDrivenTrips.length > 0 && confirmCancelTrips
+      })
+      setScheduledDeletionAt(response.scheduledDeletionAt)
+    } catch (err) {
+      setDeleteError(getErrorMessage(err, 'Failed to delete account'))
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      {/* Data export */}
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Your Data</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Download your profile, the trips you have driven and joined, and your account activity.
+        </p>
+        {exportError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {exportError}
+          </div>
+        )}
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={isExporting}>
+            <Download className="h-4 w-4 mr-1" />
+            {isExporting ? 'Preparing...' : 'Download my data (JSON)'}
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Account deletion */}
+      <div className="pt-6 border-t border-gray-200">
+        <h2 className="text-lg font-semibold text-red-700 mb-1">Delete Account</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Your account is deactivated immediately and permanently deleted after{' '}
+          {ACCOUNT.DELETION_GRACE_PERIOD_DAYS} days. Signing back in before then cancels the deletion.
+        </p>
+        <Button onClick={openDeleteModal} className="bg-red-500 hover:bg-red-600">
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete my account
+        </Button>
+      </div>
+
+      <Modal
+        isOpen={isDeleteModalOpen}
+        onClose={scheduledDeletionAt ? logout : closeDeleteModal}
+        title={scheduledDeletionAt ? 'Account scheduled for deletion' : 'Delete Account'}
+      >
+        {scheduledDeletionAt ? (
+          <div className="text-center space-y-4">
+            <p className="text-sm text-gray-600">
+              Your account will be permanently deleted on{' '}
+              <strong>{format(new Date(scheduledDeletionAt), 'PPP')}</strong>.
+              Sign in before then if you change your mind.
+            </p>
+            <Button onClick={logout} className="w-full">
+              Sign Out
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleDelete} className="space-y-4">
+            {deleteError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {deleteError}
+              </div>
+            )}
+
+            {isLoadingTrips ? (
+              <p className="text-sm text-gray-600">Checking your upcoming trips...</p>
+            ) : tripsError ? (
+              // Without the trip list we cannot tell whether passengers would be stranded
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                <p>{tripsError}</p>
+                <button
+                  type="button"
+                  onClick={loadActiveDrivenTrips}
+                  className="mt-2 text-red-600 hover:text-red-700 underline"
+                >
+                  Try again
+                </button>
+              </div>
+            ) : activeDrivenTrips.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2 text-amber-800 font-medium text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  You are still driving {activeDrivenTrips.length} upcoming trip{activeDrivenTrips.length === 1 ? '' : 's'}
+                </div>
+                <ul className="text-xs text-amber-800 space-y-1">
+                  {activeDrivenTrips.map(trip => (
+                    <li key={trip.id}>
+                      • {trip.from} → {trip.to} on {format(new Date(trip.departureTime), 'PP p')}
+                      {trip.currentPassengers > 0 && ` (${trip.currentPassengers} passenger${trip.currentPassengers === 1 ? '' : 's'})`}
+                    </li>
+                  ))}
+                </ul>
+                <label className="flex items-start gap-2 text-sm text-amber-900">
+                  <input
+                    type="checkbox"
+                    checked={confirmCancelTrips}
+                    onChange={(e) => setConfirmCancelTrips(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Cancel these trips and notify their passengers
+                </label>
+              </div>
+            )}
+
+            <Input
+              label="Confirm your password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              icon={<Lock className="h-4 w-4" />}
+            />
+
+            <div className="flex space-x-3 pt-2">
+              <Button
+                type="submit"
+                disabled={isDeleting || isLoadingTrips || !!tripsError}
+                className="flex-1 bg-red-500 hover:bg-red-600"
+              >
+                {isDeleting ? 'Deleting...' : 'Delete Account'}
+              </Button>
+              <Button
+                type="button"
+                onClick={closeDeleteModal}
+                variant="outline"
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { screen, waitFor } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import RegisterForm from '@/components/auth/RegisterForm'
+import { getStoredToken } from '@/lib/auth'
+import { mockApi, renderWithProviders } from '@/test/render'
+
+async function fillForm(
+  user: ReturnType<typeof renderWithProviders>['user'],
+  { email = 'tara@example.com', password = 'secret123', confirmPassword = password }: {
+    email?: string
+    password?: string
+    confirmPassword?: string
+  } = {}
+) {
+  await user.type(screen.getByLabelText('Full Name'), 'Tara New')
+  await user.type(screen.getByLabelText('Email'), email)
+  await user.type(screen.getByLabelText('Phone Number'), '+919800000099')
+  await user.type(screen.getByLabelText('Password'), password)
+  await user.type(screen.getByLabelText('Confirm Password'), confirmPassword)
+  await user.click(screen.getByRole('button', { name: 'Sign Up' }))
+}
+
+describe('RegisterForm', () => {
+  it('rejects mismatched passwords without calling the API', async () => {
+    const { user } = renderWithProviders(<RegisterForm />)
+
+    await fillForm(user, { password: 'secret123', confirmPassword: 'secret124' })
+
+    expect(await screen.findByText('Passwords do not match')).toBeInTheDocument()
+    expect(mockApi().db.users.some(account => account.email === 'tara@example.com')).toBe(false)
+  })
+
+  it('shows field errors from the server next to the matching input', async () => {
+    const { user } = renderWithProviders(<RegisterForm />)
+
+    await fillForm(user, { email: 'asha@example.com' })
+
+    expect(await screen.findByText('An account with this email already exists')).toBeInTheDocument()
+    expect(screen.getByText('An account with this email already exists.')).toBeInTheDocument()
+    expect(getStoredToken()).toBeNull()
+  })
+
+  it('signs the new account in and asks them to verify their email', async () => {
+    const { user } = renderWithProviders(<RegisterForm />)
+
+    await fillForm(user)
+
+    expect(await screen.findByText('Check Your Inbox')).toBeInTheDocument()
+    expect(screen.getByText('tara@example.com')).toBeInTheDocument()
+    await waitFor(() => expect(getStoredToken()).toBeTruthy())
+  })
+})
@@ -1,11 +1,14 @@
 'use client'
 
 import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { useAuth } from '@/hooks/useAuth'
-import { User, Mail, Phone, Lock, Eye, EyeOff } from 'lucide-react'
+import { getSafeRedirectPath, needsEmailVerification } from '@/lib/auth'
+import { FieldErrors, getErrorMessage, isApiError } from '@/lib/errors'
+import ResendVerificationButton from '@/components/auth/ResendVerificationButton'
+import { User, Mail, MailCheck, Phone, Lock, Eye, EyeOff } from 'lucide-react'
 import Link from 'next/link'
 
 interface RegisterFormData {
@@ -28,14 +31,19 @@ export default function RegisterForm() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [pendingVerificationEmail, setPendingVerificationEmail] = useState('')
   
   const { register } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const nextParam = searchParams.get('next')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
     setError('')
+    setFieldErrors({})
 
     if (formData.password !== formData.confirmPassword) {
       setError('Passwords do not match')
@@ -44,15 +52,20 @@ export default function RegisterForm() {
     }
 
     try {
-      await register({
+      const newUser = await register({
         name: formData.name,
         email: formData.email,
         password: formData.password,
         phone: formData.phone
       })
-      router.push('/dashboard')
-    } catch (err: any) {
-      setError(err.message || 'Registration failed')
+      if (needsEmailVerification(newUser)) {
+        setPendingVerificationEmail(newUser.email)
+        return
+      }
+      router.push(getSafeRedirectPath(nextParam))
+    } catch (err) {
+      if (isApiError(err)) setFieldErrors(err.fieldErrors)
+      setError(getErrorMessage(err, 'Registration failed'))
     } finally {
       setIsLoading(false)
     }
@@ -65,6 +78,34 @@ export default function RegisterForm() {
     }))
   }
 
+  // Post-registration "check your inbox" state
+  if (pendingVerificationEmail) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <MailCheck className="h-6 w-6 text-blue-600" />
+            </div>
+            <h2 className="text-3xl font-bold text-gray-900">Check Your Inbox</h2>
+            <p className="mt-2 text-gray-600">
+              We sent a verification link to <strong>{pendingVerificationEmail}</strong>.
+              Verify your email to start creating trips.
+            </p>
+            <ResendVerificationButton className="block mt-6 text-sm text-blue-600" />
+            <Button
+              onClick={() => router.push(getSafeRedirectPath(nextParam))}
+              variant="outline"
+              className="w-full mt-6"
+            >
+              Continue to Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -85,6 +126,7 @@ export default function RegisterForm() {
               label="Full Name"
               type="text"
               name="name"
+              error={fieldErrors.name}
               value={formData.name}
               onChange={handleChange}
               required
@@ -96,6 +138,7 @@ export default function RegisterForm() {
               label="Email"
               type="email"
               name="email"
+              error={fieldErrors.email}
               value={formData.email}
               onChange={handleChange}
               required
@@ -107,6 +150,7 @@ export default function RegisterForm() {
               label="Phone Number"
               type="tel"
               name="phone"
+              error={fieldErrors.phone}
               value={formData.phone}
               onChange={handleChange}
               required
@@ -119,6 +163,7 @@ export default function RegisterForm() {
                 label="Password"
                 type={showPassword ? 'text' : 'password'}
                 name="password"
+                error={fieldErrors.password}
                 value={formData.password}
                 onChange={handleChange}
                 required
@@ -174,7 +219,10 @@ export default function RegisterForm() {
           <div className="mt-6 text-center">
             <p className="text-gray-600">
               Already have an account?{' '}
-              <Link href="/login" className="text-blue-600 hover:text-blue-500 font-medium">
+              <Link
+                href={nextParam ? `/login?next=${encodeURIComponent(nextParam)}` : '/login'}
+                className="text-blue-600 hover:text-blue-500 font-medium"
+              >
                 Sign in
               </Link>
             </p>
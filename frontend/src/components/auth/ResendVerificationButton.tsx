@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { resendVerificationEmail } from '@/lib/api'
+import { getErrorMessage } from '@/lib/errors'
+import { MESSAGES } from '@/lib/constants'
+
+interface ResendVerificationButtonProps {
+  className?: string
+}
+
+export default function ResendVerificationButton({ className = '' }: ResendVerificationButtonProps) {
+  const [isSending, setIsSending] = useState(false)
+  const [status, setStatus] = useState('')
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setStatus('')
+    try {
+      const response = await resendVerificationEmail()
+      setStatus(response.message || MESSAGES.SUCCESS.VERIFICATION_EMAIL_SENT)
+    } catch (err) {
+      setStatus(getErrorMessage(err, 'Failed to resend verification email'))
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <span className={className}>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={isSending}
+        className="font-medium underline hover:no-underline disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : 'Resend verification email'}
+      </button>
+      {status && <span className="ml-2">{status}</span>}
+    </span>
+  )
+}
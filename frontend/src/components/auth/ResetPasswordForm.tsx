@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { resetPassword } from '@/lib/api'
+import { getErrorMessage, isInvalidTokenError } from '@/lib/errors'
+import { MESSAGES, VALIDATION } from '@/lib/constants'
+import { KeyRound, Lock, Eye, EyeOff, CheckCircle } from 'lucide-react'
+
+interface ResetPasswordFormData {
+  token: string
+  password: string
+  confirmPassword: string
+}
+
+export default function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  // Reset links from the email carry the token; otherwise the user types the code
+  const urlToken = searchParams.get('token') || ''
+
+  const [formData, setFormData] = useState<ResetPasswordFormData>({
+    token: urlToken,
+    password: '',
+    confirmPassword: ''
+  })
+  const [showPassword, setShowPassword] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [isReset, setIsReset] = useState(false)
+
+  const router = useRouter()
+
+  const validateForm = (): string | undefined => {
+    if (!formData.token.trim()) return 'Please enter the reset code from your email'
+    if (formData.password.length < VALIDATION.MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${VALIDATION.MIN_PASSWORD_LENGTH} characters`
+    }
+    if (formData.password !== formData.confirmPassword) return 'Passwords do not match'
+    return undefined
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateForm()
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await resetPassword({
+        token: formData.token.trim(),
+        password: formData.password
+      })
+      setIsReset(true)
+    } catch (err) {
+      setError(isInvalidTokenError(err) ? MESSAGES.ERROR.INVALID_RESET_TOKEN : getErrorMessage(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }))
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <div className="text-center mb-8">
+            <h2 className="text-3xl font-bold text-gray-900">Reset Password</h2>
+            <p className="mt-2 text-gray-600">Choose a new password for your account</p>
+          </div>
+
+          {isReset ? (
+            <div className="space-y-6">
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-start gap-2">
+                <CheckCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <p>{MESSAGES.SUCCESS.PASSWORD_RESET}</p>
+              </div>
+              <Button onClick={() => router.push('/login')} className="w-full">
+                Sign In
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                  <p>{error}</p>
+                  <Link
+                    href="/forgot-password"
+                    className="mt-1 inline-block text-sm text-red-600 hover:text-red-700 underline"
+                  >
+                    Request a new reset code
+                  </Link>
+                </div>
+              )}
+
+              {!urlToken && (
+                <Input
+                  label="Reset Code"
+                  type="text"
+                  name="token"
+                  value={formData.token}
+                  onChange={handleChange}
+                  required
+                  autoComplete="one-time-code"
+                  placeholder="Enter the code from your email"
+                  icon={<KeyRound className="h-4 w-4" />}
+                />
+              )}
+
+              <div className="relative">
+                <Input
+                  label="New Password"
+                  type={showPassword ? 'text' : 'password'}
+                  name="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  required
+                  minLength={VALIDATION.MIN_PASSWORD_LENGTH}
+                  placeholder={`At least ${VALIDATION.MIN_PASSWORD_LENGTH} characters`}
+                  icon={<Lock className="h-4 w-4" />}
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center mt-6"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-gray-400" />
+                  )}
+                </button>
+              </div>
+
+              <Input
+                label="Confirm New Password"
+                type={showPassword ? 'text' : 'password'}
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                required
+                placeholder="Confirm your new password"
+                icon={<Lock className="h-4 w-4" />}
+              />
+
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full"
+              >
+                {isLoading ? 'Resetting...' : 'Reset Password'}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <p className="text-gray-600">
+              Remembered it?{' '}
+              <Link href="/login" className="text-blue-600 hover:text-blue-500 font-medium">
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
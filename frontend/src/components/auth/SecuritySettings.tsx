@@ -0,0 +1,217 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/Button'
+import { Modal } from '@/components/ui/Modal'
+import { useAuth } from '@/hooks/useAuth'
+import { getSessions, getUserActivity } from '@/lib/api'
+import { getErrorMessage, isCancelledError } from '@/lib/errors'
+import { useLatestRequest } from '@/hooks/useLatestRequest'
+import { UserActivity, UserSession } from '@/types/user'
+import { Shield, Monitor, Smartphone, LogOut, History } from 'lucide-react'
+
+const isMobileDevice = (device: string) => /mobile|android|iphone|ipad/i.test(device)
+
+export default function SecuritySettings() {
+  const { revokeSession, logoutEverywhere } = useAuth()
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [activity, setActivity] = useState<UserActivity[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [isLogoutAllModalOpen, setIsLogoutAllModalOpen] = useState(false)
+  const [isLoggingOutAll, setIsLoggingOutAll] = useState(false)
+  const nextSignal = useLatestRequest()
+
+  const loadSecurityData = useCallback(async () => {
+    const signal = nextSignal()
+    try {
+      setIsLoading(true)
+      setError('')
+      const [sessionsData, activityData] = await Promise.all([
+        getSessions(signal),
+        getUserActivity(undefined, signal)
+      ])
+      if (signal.aborted) return
+      setSessions(Array.isArray(sessionsData) ? sessionsData : [])
+      setActivity(Array.isArray(activityData) ? activityData : [])
+    } catch (err) {
+      if (isCancelledError(err)) return
+      setError(getErrorMessage(err, 'Failed to load security information'))
+    } finally {
+      if (!signal.aborted) setIsLoading(false)
+    }
+  }, [nextSignal])
+
+  useEffect(() => {
+    loadSecurityData()
+  }, [loadSecurityData])
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.id)
+    setError('')
+    try {
+      await revokeSession(session.id, session.isCurrent)
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to revoke session'))
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleLogoutEverywhere = async () => {
+    setIsLoggingOutAll(true)
+    try {
+      await logoutEverywhere()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to log out of all sessions'))
+      setIsLoggingOutAll(false)
+      setIsLogoutAllModalOpen(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Shield className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Security</h2>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsLogoutAllModalOpen(true)}
+          disabled={isLoading || sessions.length === 0}
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Log out everywhere
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <p>{error}</p>
+          <button
+            onClick={loadSecurityData}
+            className="mt-1 text-sm text-red-600 hover:text-red-700 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600 text-sm">Loading sessions...</span>
+        </div>
+      ) : (
+        <>
+          {/* Active Sessions */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">Active Sessions</h3>
+            {sessions.length > 0 ? (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {sessions.map(session => (
+                  <li key={session.id} className="flex items-center justify-between p-3">
+                    <div className="flex items-center gap-3">
+                      {isMobileDevice(session.device) ? (
+                        <Smartphone className="h-5 w-5 text-gray-500" />
+                      ) : (
+                        <Monitor className="h-5 w-5 text-gray-500" />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                          {session.browser ? `${session.browser} on ${session.device}` : session.device}
+                          {session.isCurrent && (
+                            <span className="bg-green-100 text-green-700 rounded-full px-2 py-0.5 text-xs">
+                              This device
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[session.location, session.ipAddress].filter(Boolean).join(' · ')}
+                          {(session.location || session.ipAddress) && ' · '}
+                          Active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokingId === session.id}
+                      className="text-red-600 hover:bg-red-50"
+                    >
+                      {revokingId === session.id ? 'Revoking...' : session.isCurrent ? 'Log out' : 'Revoke'}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No active sessions found.</p>
+            )}
+          </div>
+
+          {/* Recent Activity */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center gap-2">
+              <History className="h-4 w-4 text-gray-500" />
+              Recent Login Activity
+            </h3>
+            {activity.length > 0 ? (
+              <ul className="space-y-2">
+                {activity.map(entry => (
+                  <li key={entry.id} className="flex items-start justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                    <div>
+                      <p className="font-medium text-gray-800">{entry.action}</p>
+                      <p className="text-xs text-gray-500">
+                        {entry.details}
+                        {entry.ipAddress && ` · ${entry.ipAddress}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap ml-3">
+                      {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No recent activity.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      <Modal
+        isOpen={isLogoutAllModalOpen}
+        onClose={() => setIsLogoutAllModalOpen(false)}
+        title="Log out everywhere"
+      >
+        <div className="text-center">
+          <p className="text-sm text-gray-600 mb-6">
+            This signs you out on every device, including this one. You will need to sign in again.
+          </p>
+          <div className="flex space-x-3">
+            <Button
+              onClick={handleLogoutEverywhere}
+              disabled={isLoggingOutAll}
+              className="flex-1 bg-red-500 hover:bg-red-600"
+            >
+              {isLoggingOutAll ? 'Logging out...' : 'Log out everywhere'}
+            </Button>
+            <Button
+              onClick={() => setIsLogoutAllModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { usePathname } from 'next/navigation'
+import { Clock } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Modal } from '@/components/ui/Modal'
+import { useAuth } from '@/hooks/useAuth'
+
+// Only shown when the session can't be refreshed silently (no refresh token, or the
+// refresh already failed), so the way to stay signed in is to sign in again
+export default function SessionExpiryModal() {
+  const { isSessionExpiring, sessionExpiresAt, logout, reauthenticate, dismissSessionWarning } = useAuth()
+  const pathname = usePathname()
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  useEffect(() => {
+    if (!isSessionExpiring || !sessionExpiresAt) return
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.round((sessionExpiresAt - Date.now()) / 1000)))
+    }
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [isSessionExpiring, sessionExpiresAt])
+
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = (secondsLeft % 60).toString().padStart(2, '0')
+
+  return (
+    <Modal
+      isOpen={isSessionExpiring}
+      onClose={dismissSessionWarning}
+      title="Your session is about to expire"
+    >
+      <div className="text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 mb-4">
+          <Clock className="h-6 w-6 text-amber-600" />
+        </div>
+        <p className="text-sm text-gray-600 mb-2">
+          For your security you will be signed out in
+        </p>
+        <p className="text-2xl font-bold text-gray-900 mb-6">
+          {minutes}:{seconds}
+        </p>
+        <div className="flex space-x-3">
+          <Button
+            onClick={() => reauthenticate(pathname)}
+            className="flex-1"
+          >
+            Sign In Again
+          </Button>
+          <Button
+            onClick={logout}
+            variant="outline"
+            className="flex-1"
+          >
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { verifyEmail } from '@/lib/api'
+import { getErrorMessage, isInvalidTokenError } from '@/lib/errors'
+import { MESSAGES } from '@/lib/constants'
+import ResendVerificationButton from '@/components/auth/ResendVerificationButton'
+import { CheckCircle, XCircle } from 'lucide-react'
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed'
+
+export default function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const { user, setUser } = useAuth()
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'failed')
+  const [error, setError] = useState(token ? '' : MESSAGES.ERROR.INVALID_VERIFICATION_TOKEN)
+  // Verification tokens are single-use, so never submit the same one twice
+  const submittedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return
+    submittedToken.current = token
+
+    const verify = async () => {
+      try {
+        const verifiedUser = await verifyEmail(token)
+        setStatus('verified')
+        if (user && verifiedUser?.id === user.id) {
+          setUser({ ...user, ...verifiedUser, isEmailVerified: true })
+        }
+      } catch (err) {
+        setStatus('failed')
+        setError(isInvalidTokenError(err) ? MESSAGES.ERROR.INVALID_VERIFICATION_TOKEN : getErrorMessage(err))
+      }
+    }
+
+    verify()
+  }, [token, user, setUser])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          {status === 'verifying' && (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <h2 className="text-2xl font-bold text-gray-900">Verifying your email...</h2>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Email Verified</h2>
+              <p className="text-gray-600 mb-6">{MESSAGES.SUCCESS.EMAIL_VERIFIED}</p>
+              <Link
+                href={user ? '/dashboard' : '/login'}
+                className="inline-block bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium"
+              >
+                {user ? 'Go to Dashboard' : 'Sign In'}
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <XCircle className="h-6 w-6 text-red-600" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Verification Failed</h2>
+              <p className="text-gray-600 mb-6">{error}</p>
+              {user ? (
+                <ResendVerificationButton className="text-sm text-blue-600" />
+              ) : (
+                <Link href="/login" className="text-blue-600 hover:text-blue-500 font-medium">
+                  Sign in to request a new link
+                </Link>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { AlertCircle } from 'lucide-react'
+import { buildLoginUrl } from '@/lib/auth'
+import { ApiError } from '@/lib/errors'
+
+interface ErrorAlertProps {
+  error: ApiError | null
+  title?: string
+  onRetry?: () => void
+  className?: string
+}
+
+// Shows an API failure together with the action that is most likely to fix it
+export default function ErrorAlert({ error, title, onRetry, className = '' }: ErrorAlertProps) {
+  const pathname = usePathname()
+
+  if (!error) return null
+
+  const action = error.recoveryAction
+
+  return (
+    <div className={`bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg ${className}`}>
+      <div className="flex items-start gap-2">
+        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          {title && <p className="font-medium text-sm">{title}</p>}
+          <p className="text-sm">{error.message}</p>
+
+          {action === 'retry' && onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-2 text-sm text-red-600 hover:text-red-700 underline"
+            >
+              Try again
+            </button>
+          )}
+          {action === 'sign-in' && (
+            <Link
+              href={buildLoginUrl(pathname)}
+              className="mt-2 inline-block text-sm text-red-600 hover:text-red-700 underline"
+            >
+              Sign in again
+            </Link>
+          )}
+          {action === 'go-back' && (
+            <Link
+              href="/dashboard/trips"
+              className="mt-2 inline-block text-sm text-red-600 hover:text-red-700 underline"
+            >
+              Back to trips
+            </Link>
+          )}
+
+          {error.requestId && (
+            <p className="mt-2 text-xs text-red-500">Reference: {error.requestId}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,29 @@
+'use client'
+
+import { useServerStatus } from '@/hooks/useServerStatus'
+import { getWakeProgress } from '@/components/common/ServerStatusBanner'
+
 export default function Loading() {
+  const { isWaking, elapsedSeconds } = useServerStatus()
+
   return (
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
         <div className="loading-spinner mx-auto mb-4"></div>
-        <p className="text-gray-600">Loading...</p>
+        <p className="text-gray-600">{isWaking ? 'Waking up the server...' : 'Loading...'}</p>
+        {isWaking && (
+          <div className="mt-3 w-64 mx-auto">
+            <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all duration-1000"
+                style={{ width: `${getWakeProgress(elapsedSeconds)}%` }}
+              />
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              This can take up to a minute after a quiet period ({elapsedSeconds}s)
+            </p>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect } from 'react'
+import { AlertTriangle, Loader2, WifiOff, X } from 'lucide-react'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { useOutbox } from '@/hooks/useOutbox'
+import { dismissOutboxConflict, replayOutbox, startOutboxSync } from '@/lib/outbox'
+
+const pluralChanges = (count: number) => `${count} change${count === 1 ? '' : 's'}`
+
+// Shows offline state, writes waiting in the outbox, and any that the server
+// rejected when they were replayed
+export default function OfflineBanner() {
+  const isOnline = useOnlineStatus()
+  const { entries, conflicts, isReplaying } = useOutbox()
+
+  // Lives in the dashboard layout, so queued writes are only replayed while signed in
+  useEffect(() => startOutboxSync(), [])
+
+  return (
+    <>
+      {!isOnline && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-2 text-sm text-amber-800">
+            <WifiOff className="h-4 w-4 flex-shrink-0" />
+            <span className="flex-1">
+              You&apos;re offline. Showing trips saved on this device.
+              {entries.length > 0 && ` ${pluralChanges(entries.length)} will sync when you reconnect.`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {isOnline && entries.length > 0 && (
+        <div className="bg-blue-50 border-b border-blue-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-2 text-sm text-blue-800">
+            {isReplaying && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />}
+            <span className="flex-1">
+              {isReplaying
+                ? `Syncing ${pluralChanges(entries.length)} made while offline...`
+                : `${pluralChanges(entries.length)} made while offline still need to be sent.`}
+            </span>
+            {!isReplaying && (
+              <button
+                onClick={() => replayOutbox()}
+                className="text-sm text-blue-600 hover:text-blue-700 underline"
+              >
+                Sync now
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {conflicts.map(conflict => (
+        <div key={conflict.entry.id} className="bg-red-50 border-b border-red-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-start gap-2 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span className="flex-1">
+              <span className="font-medium">{conflict.entry.label}</span> couldn&apos;t be completed
+              after you came back online: {conflict.message}
+            </span>
+            <button
+              onClick={() => dismissOutboxConflict(conflict.entry.id)}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
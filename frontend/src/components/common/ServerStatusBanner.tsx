@@ -0,0 +1,61 @@
+'use client'
+
+import { CloudOff, Loader2 } from 'lucide-react'
+import { useServerStatus } from '@/hooks/useServerStatus'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { warmUpServer } from '@/lib/api'
+import { runtimeConfig } from '@/lib/config'
+
+// Fill the bar over the request timeout, but never show it as finished
+export function getWakeProgress(elapsedSeconds: number): number {
+  return Math.min(95, Math.round((elapsedSeconds * 1000 / runtimeConfig.apiTimeoutMs) * 100))
+}
+
+export default function ServerStatusBanner() {
+  const { isWaking, isUnreachable, elapsedSeconds } = useServerStatus()
+  const isOnline = useOnlineStatus()
+
+  // The offline banner already explains why the server can't be reached
+  if (!isOnline) return null
+
+  if (isWaking) {
+    return (
+      <div className="bg-blue-50 border-b border-blue-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 text-sm text-blue-800">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />
+            <span className="flex-1">
+              Waking up the server. It sleeps when idle, so this can take up to a minute.
+            </span>
+            <span className="text-xs text-blue-600">{elapsedSeconds}s</span>
+          </div>
+          <div className="mt-2 h-1 bg-blue-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-1000"
+              style={{ width: `${getWakeProgress(elapsedSeconds)}%` }}
+            />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (isUnreachable) {
+    return (
+      <div className="bg-red-50 border-b border-red-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-2 text-sm text-red-700">
+          <CloudOff className="h-4 w-4 flex-shrink-0" />
+          <span className="flex-1">We can&apos;t reach the server right now.</span>
+          <button
+            onClick={() => warmUpServer()}
+            className="text-sm text-red-600 hover:text-red-700 underline"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useEffect } from 'react'
+import { warmUpServer } from '@/lib/api'
+import { runtimeConfig } from '@/lib/config'
+
+// Pings the backend as soon as the app loads so it is awake by the time the user acts
+export default function ServerWarmUp() {
+  useEffect(() => {
+    if (runtimeConfig.features.warmUpOnLoad) {
+      warmUpServer()
+    }
+  }, [])
+
+  return null
+}
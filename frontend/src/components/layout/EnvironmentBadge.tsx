@@ -0,0 +1,24 @@
+import { runtimeConfig } from '@/lib/config'
+
+const BADGE_STYLES = {
+  production: '',
+  staging: 'bg-amber-100 text-amber-800 border-amber-300',
+  development: 'bg-purple-100 text-purple-800 border-purple-300',
+  mock: 'bg-teal-100 text-teal-800 border-teal-300'
+} as const
+
+// Makes it obvious which backend a non-production build is talking to
+export default function EnvironmentBadge() {
+  const { environment, apiBaseUrl, features } = runtimeConfig
+
+  if (environment === 'production' || !features.environmentBadge) return null
+
+  return (
+    <span
+      className={`ml-3 rounded-full border px-2 py-0.5 text-xs font-semibold uppercase tracking-wide ${BADGE_STYLES[environment]}`}
+      title={environment === 'mock' ? `Mock API: ${runtimeConfig.mock.scenario} scenario` : `API: ${apiBaseUrl}`}
+    >
+      {environment === 'mock' ? `mock · ${runtimeConfig.mock.scenario}` : environment}
+    </span>
+  )
+}
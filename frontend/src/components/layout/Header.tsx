@@ -3,12 +3,15 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/useAuth'
-import { Car, Bell, User, Menu, X, LogOut } from 'lucide-react'
+import { hasAdminAccess } from '@/lib/auth'
+import { Car, Bell, User, Menu, X, LogOut, Shield } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
+import EnvironmentBadge from '@/components/layout/EnvironmentBadge'
 
 export default function Header() {
-  const { user, logout } = useAuth()
+  const { user, provisionalUser, logout } = useAuth()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+  const isStaff = hasAdminAccess(user?.role)
 
   const handleLogout = () => {
     logout()
@@ -23,6 +26,7 @@ export default function Header() {
           <Link href="/dashboard" className="flex items-center">
             <Car className="h-8 w-8 text-blue-600" />
             <span className="ml-2 text-xl font-bold text-gray-900">RideShare</span>
+            <EnvironmentBadge />
           </Link>
 
           {/* Desktop Navigation */}
@@ -45,6 +49,15 @@ export default function Header() {
             >
               Find Rides
             </Link>
+            {isStaff && (
+              <Link
+                href="/admin"
+                className="text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium flex items-center gap-1"
+              >
+                <Shield className="h-4 w-4" />
+                Admin
+              </Link>
+            )}
           </nav>
 
           {/* User Menu */}
@@ -58,7 +71,7 @@ export default function Header() {
                 <div className="bg-gray-200 w-8 h-8 rounded-full flex items-center justify-center mr-2">
                   <User className="h-5 w-5" />
                 </div>
-                <span className="text-sm font-medium">{user?.name}</span>
+                <span className="text-sm font-medium">{(user ?? provisionalUser)?.name}</span>
               </button>
               
               <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200">
@@ -122,6 +135,15 @@ export default function Header() {
             >
               Find Rides
             </Link>
+            {isStaff && (
+              <Link
+                href="/admin"
+                className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-blue-600"
+                onClick={() => setIsMobileMenuOpen(false)}
+              >
+                Admin
+              </Link>
+            )}
             <Link
               href="/dashboard/profile"
               className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-blue-600"
@@ -0,0 +1,107 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react'
+import { format } from 'date-fns'
+import { describe, expect, it } from 'vitest'
+import CreateTripForm from '@/components/trips/CreateTripForm'
+import { mockRouter } from '@/test/navigation'
+import { mockApi, renderWithProviders, signInAs } from '@/test/render'
+
+// datetime-local inputs take local time without seconds
+const inMinutes = (minutes: number) => format(new Date(Date.now() + minutes * 60 * 1000), "yyyy-MM-dd'T'HH:mm")
+
+const fields = () => ({
+  from: screen.getByLabelText('From'),
+  to: screen.getByLabelText('To'),
+  departure: screen.getByLabelText('Departure'),
+  passengers: screen.getByLabelText('Passengers(Number excluding yourself)'),
+  price: screen.getByLabelText('Total Approximate Fare Price (₹)')
+})
+
+describe('CreateTripForm', () => {
+  it('flags every missing field when submitted empty', async () => {
+    const { container } = renderWithProviders(<CreateTripForm />)
+
+    fireEvent.submit(container.querySelector('form')!)
+
+    expect(await screen.findByText('Please fix the errors above before submitting')).toBeInTheDocument()
+    expect(screen.getByText('Departure location is required')).toBeInTheDocument()
+    expect(screen.getByText('Destination is required')).toBeInTheDocument()
+    expect(screen.getByText('Departure time is required')).toBeInTheDocument()
+    expect(screen.getByText('Price must be greater than 0')).toBeInTheDocument()
+  })
+
+  it('validates locations when the user leaves the field', async () => {
+    const { user } = renderWithProviders(<CreateTripForm />)
+    const { from, to } = fields()
+
+    await user.type(from, 'Pu')
+    await user.tab()
+    expect(screen.getByText('Location must be at least 3 characters')).toBeInTheDocument()
+
+    await user.type(from, 'ne')
+    expect(screen.queryByText('Location must be at least 3 characters')).not.toBeInTheDocument()
+
+    await user.type(to, ' PUNE ')
+    await user.tab()
+    expect(screen.getByText('Destination must be different from departure location')).toBeInTheDocument()
+  })
+
+  it('requires departure at least 30 minutes ahead', async () => {
+    const { user } = renderWithProviders(<CreateTripForm />)
+    const { departure } = fields()
+
+    fireEvent.change(departure, { target: { value: inMinutes(10) } })
+    await user.click(departure)
+    await user.tab()
+    expect(screen.getByText('Departure time must be at least 30 minutes from now')).toBeInTheDocument()
+
+    fireEvent.change(departure, { target: { value: inMinutes(90) } })
+    expect(screen.queryByText('Departure time must be at least 30 minutes from now')).not.toBeInTheDocument()
+  })
+
+  it('limits the number of passengers', async () => {
+    const { user } = renderWithProviders(<CreateTripForm />)
+    const { passengers } = fields()
+
+    await user.clear(passengers)
+    await user.type(passengers, '101')
+    await user.tab()
+    expect(screen.getByText('Maximum 100 passengers allowed')).toBeInTheDocument()
+  })
+
+  it('creates the trip and goes to My Trips', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CreateTripForm />)
+    const { from, to, departure, passengers, price } = fields()
+
+    await user.type(from, 'Nashik')
+    await user.type(to, 'Shirdi')
+    fireEvent.change(departure, { target: { value: inMinutes(24 * 60) } })
+    await user.clear(passengers)
+    await user.type(passengers, '2')
+    await user.clear(price)
+    await user.type(price, '800')
+    await user.click(screen.getByRole('button', { name: 'Create Trip' }))
+
+    expect(await screen.findByText('Trip Created!')).toBeInTheDocument()
+    expect(mockApi().db.trips).toContainEqual(
+      expect.objectContaining({ driverId: 1, from: 'Nashik', to: 'Shirdi', maxPassengers: 2, pricePerPerson: 800 })
+    )
+    await waitFor(() => expect(mockRouter.push).toHaveBeenCalledWith('/dashboard/trips'), { timeout: 3000 })
+  })
+
+  it('shows server-side validation errors next to the matching input', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CreateTripForm />)
+    const { from, to, departure, price } = fields()
+
+    await user.type(from, 'Nashik')
+    await user.type(to, 'Shirdi')
+    fireEvent.change(departure, { target: { value: inMinutes(24 * 60) } })
+    await user.clear(price)
+    await user.type(price, '5000')
+    await user.click(screen.getByRole('button', { name: 'Create Trip' }))
+
+    expect(await screen.findByText('Price must be between 0 and 1000')).toBeInTheDocument()
+    expect(screen.getByText('Please check the trip details.')).toBeInTheDocument()
+  })
+})
@@ -4,7 +4,9 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
-import { createTrip } from '@/lib/api'
+import { sendOrQueue } from '@/lib/outbox'
+import { MESSAGES } from '@/lib/constants'
+import { getErrorMessage, isApiError } from '@/lib/errors'
 import { CreateTripData } from '@/types/trip'
 import { 
   MapPin, 
@@ -14,7 +16,9 @@ import {
   AlertCircle,
   CheckCircle,
   Calendar,
-  FileText
+  FileText,
+  ShieldCheck,
+  Hourglass
 } from 'lucide-react'
 
 interface CreateTripFormData {
@@ -24,6 +28,8 @@ interface CreateTripFormData {
   maxPassengers: number
   pricePerPerson: number
   description: string
+  verifiedPassengersOnly: boolean
+  requiresApproval: boolean
 }
 
 interface FormErrors {
@@ -47,13 +53,16 @@ export default function CreateTripForm({}: CreateTripFormProps) {
     departureTime: '',
     maxPassengers: 1,
     pricePerPerson: 0,
-    description: ''
+    description: '',
+    verifiedPassengersOnly: false,
+    requiresApproval: false
   })
   
   const [errors, setErrors] = useState<FormErrors>({})
   const [isLoading, setIsLoading] = useState(false)
   const [touched, setTouched] = useState<Record<string, boolean>>({})
   const [showSuccess, setShowSuccess] = useState(false)
+  const [isQueued, setIsQueued] = useState(false)
   
   const router = useRouter()
 
@@ -131,6 +140,8 @@ export default function CreateTripForm({}: CreateTripFormProps) {
     // Convert to number for numeric fields
     if (type === 'number') {
       processedValue = parseInt(value, 10) || 0
+    } else if (type === 'checkbox') {
+      processedValue = (e.target as HTMLInputElement).checked
     }
     
     setFormData(prev => ({
@@ -202,15 +213,21 @@ export default function CreateTripForm({}: CreateTripFormProps) {
         departureTime: new Date(formData.departureTime).toISOString(),
         maxPassengers: formData.maxPassengers,
         pricePerPerson: formData.pricePerPerson,
-        description: formData.description.trim() || undefined // Use null for empty description
+        description: formData.description.trim() || undefined, // Use null for empty description
+        verifiedPassengersOnly: formData.verifiedPassengersOnly,
+        requiresApproval: formData.requiresApproval
       }
       
       console.log('API data being sent:', apiData)
       
-      const result = await createTrip(apiData)
+      const result = await sendOrQueue(
+        { type: 'createTrip', payload: apiData },
+        `Create trip ${apiData.from} → ${apiData.to}`
+      )
       console.log('Trip created successfully:', result)
       
       // Show success state
+      setIsQueued(result.status === 'queued')
       setShowSuccess(true)
       
       // Navigate after short delay
@@ -218,30 +235,19 @@ export default function CreateTripForm({}: CreateTripFormProps) {
         router.push('/dashboard/trips')
       }, 1500)
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('Create trip error:', err)
-      
-      let errorMessage = 'Failed to create trip. Please try again.'
-      
-      if (err.response?.status) {
-        switch (err.response.status) {
-          case 400:
-            errorMessage = 'Invalid trip data. Please check your inputs.';
-            break;
-          case 401:
-            errorMessage = 'Please log in again to create a trip.';
-            break;
-          case 500:
-            errorMessage = 'Server error. Please try again later.';
-            break;
-          default:
-            if (err.response.data?.error) {
-              errorMessage = err.response.data.error;
-            }
-        }
+
+      if (isApiError(err) && err.hasFieldErrors) {
+        // Put server-side validation messages next to the matching inputs
+        const fieldErrors: FormErrors = { ...err.fieldErrors }
+        setTouched(prev => ({ ...prev, ...Object.fromEntries(Object.keys(fieldErrors).map(key => [key, true])) }))
+        setErrors({ ...fieldErrors, general: err.message })
+      } else if (isApiError(err) && err.recoveryAction === 'sign-in') {
+        setErrors({ general: 'Please log in again to create a trip.' })
+      } else {
+        setErrors({ general: getErrorMessage(err, 'Failed to create trip. Please try again.') })
       }
-      
-      setErrors({ general: errorMessage })
     } finally {
       setIsLoading(false)
     }
@@ -254,7 +260,10 @@ export default function CreateTripForm({}: CreateTripFormProps) {
         <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
           <CheckCircle className="h-6 w-6 text-green-600" />
         </div>
-        <h3 className="text-lg font-semibold text-gray-900 mb-1">Trip Created!</h3>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+          {isQueued ? 'Trip Saved' : 'Trip Created!'}
+        </h3>
+        {isQueued && <p className="text-gray-600 text-sm">{MESSAGES.SUCCESS.QUEUED_OFFLINE}</p>}
         <p className="text-gray-600 text-sm">Redirecting you to your trips...</p>
       </div>
     )
@@ -417,6 +426,44 @@ export default function CreateTripForm({}: CreateTripFormProps) {
           className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
           placeholder="Additional details about pickup points, preferences..."
         />
+
+        <label className="flex items-start gap-3 bg-green-50 border border-green-200 rounded-lg p-3 cursor-pointer">
+          <input
+            type="checkbox"
+            name="verifiedPassengersOnly"
+            checked={formData.verifiedPassengersOnly}
+            onChange={handleChange}
+            className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>
+            <span className="flex items-center gap-1 text-sm font-medium text-gray-900">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              Verified passengers only
+            </span>
+            <span className="block text-xs text-gray-600">
+              Only riders who verified their phone number can join this trip
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3 cursor-pointer">
+          <input
+            type="checkbox"
+            name="requiresApproval"
+            checked={formData.requiresApproval}
+            onChange={handleChange}
+            className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>
+            <span className="flex items-center gap-1 text-sm font-medium text-gray-900">
+              <Hourglass className="h-4 w-4 text-amber-600" />
+              Approve each passenger
+            </span>
+            <span className="block text-xs text-gray-600">
+              Riders send a request with a note, and you accept or decline it
+            </span>
+          </span>
+        </label>
       </div>
 
       {/* Compact Action Buttons */}
@@ -0,0 +1,117 @@
+import { act, fireEvent, screen } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import SearchForm from '@/components/trips/SearchForm'
+import { renderWithProviders } from '@/test/render'
+
+const DEBOUNCE_MS = 500
+
+function renderSearchForm() {
+  const onSearch = vi.fn()
+  const rendered = renderWithProviders(<SearchForm onSearch={onSearch} isLoading={false} />)
+  return {
+    ...rendered,
+    onSearch,
+    from: screen.getByLabelText('From'),
+    to: screen.getByLabelText('To'),
+    date: screen.getByLabelText('Departure Date (Optional)'),
+    submit: () => fireEvent.submit(rendered.container.querySelector('form')!)
+  }
+}
+
+describe('SearchForm validation', () => {
+  it('requires both locations', () => {
+    const { onSearch, submit } = renderSearchForm()
+
+    submit()
+
+    expect(screen.getByText('Departure location is required')).toBeInTheDocument()
+    expect(screen.getByText('Destination is required')).toBeInTheDocument()
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+
+  it('treats locations that differ only in case and punctuation as the same place', () => {
+    const { from, to, onSearch, submit } = renderSearchForm()
+
+    fireEvent.change(from, { target: { value: 'Pune' } })
+    fireEvent.change(to, { target: { value: 'pune.' } })
+    submit()
+
+    expect(screen.getByText('Destination must be different from departure location')).toBeInTheDocument()
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+
+  it('rejects a departure date in the past', () => {
+    const { from, to, date, onSearch, submit } = renderSearchForm()
+
+    fireEvent.change(from, { target: { value: 'Pune' } })
+    fireEvent.change(to, { target: { value: 'Mumbai' } })
+    fireEvent.change(date, { target: { value: '2020-01-01' } })
+    submit()
+
+    expect(screen.getByText('Departure date cannot be in the past')).toBeInTheDocument()
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+
+  it('submits trimmed locations with the default price cap', async () => {
+    const { user, from, to, onSearch } = renderSearchForm()
+
+    await user.type(from, '  Pune ')
+    await user.type(to, 'Mumbai')
+    await user.click(screen.getByRole('button', { name: 'Search Trips' }))
+
+    expect(onSearch).toHaveBeenLastCalledWith({ from: 'Pune', to: 'Mumbai', departureDate: '', maxPrice: 10000 })
+  })
+})
+
+describe('SearchForm auto-search', () => {
+  // Typing is simulated with change events so the debounce runs on fake timers alone
+  const typeSlowly = (input: HTMLElement, text: string, gapMs: number) => {
+    for (let length = 1; length <= text.length; length++) {
+      fireEvent.change(input, { target: { value: text.slice(0, length) } })
+      act(() => {
+        vi.advanceTimersByTime(gapMs)
+      })
+    }
+  }
+
+  it('searches once typing has paused, with the latest input', () => {
+    vi.useFakeTimers()
+    const { from, onSearch } = renderSearchForm()
+
+    typeSlowly(from, 'Mumbai', 100)
+    expect(onSearch).not.toHaveBeenCalled()
+
+    act(() => {
+      vi.advanceTimersByTime(DEBOUNCE_MS - 101)
+    })
+    expect(onSearch).not.toHaveBeenCalled()
+
+    act(() => {
+      vi.advanceTimersByTime(1)
+    })
+    expect(onSearch).toHaveBeenCalledTimes(1)
+    expect(onSearch).toHaveBeenCalledWith(expect.objectContaining({ from: 'Mumbai', to: '' }))
+  })
+
+  it('waits for at least two characters', () => {
+    vi.useFakeTimers()
+    const { to, onSearch } = renderSearchForm()
+
+    typeSlowly(to, 'P', 0)
+    act(() => {
+      vi.advanceTimersByTime(DEBOUNCE_MS * 2)
+    })
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+
+  it('does not auto-search when other fields change', () => {
+    vi.useFakeTimers()
+    const { date, onSearch } = renderSearchForm()
+
+    fireEvent.change(date, { target: { value: '2099-01-01' } })
+    act(() => {
+      vi.advanceTimersByTime(DEBOUNCE_MS * 2)
+    })
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+})
@@ -55,7 +55,8 @@ export default function SearchForm({ onSearch, isLoading }: SearchFormProps) {
     }
     
     // Normalize and compare locations
-    if (normalizeLocation(formData.from) === normalizeLocation(formData.to)) {
+    if (formData.from.trim() && formData.to.trim() &&
+        normalizeLocation(formData.from) === normalizeLocation(formData.to)) {
       newErrors.to = 'Destination must be different from departure location'
     }
     
@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BellRing } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useTripMutationPending } from '@/hooks/useTripMutationPending'
+import { invalidateTripQueries } from '@/lib/queryCache'
+import { acceptSeatOfferOptimistically, leaveWaitlistOptimistically } from '@/lib/tripMutations'
+import { Trip } from '@/types/trip'
+
+interface SeatOfferProps {
+  trip: Trip
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
+
+// A seat freed up and the waitlisted viewer is next; it goes to the next person if they don't answer in time
+export default function SeatOffer({ trip }: SeatOfferProps) {
+  const offerExpiresAt = trip.waitlist?.offerExpiresAt
+  const [now, setNow] = useState(() => Date.now())
+  // Without a deadline the offer stands until the backend withdraws it, so there is nothing to count down
+  const remainingMs = offerExpiresAt ? new Date(offerExpiresAt).getTime() - now : undefined
+  const hasExpired = remainingMs !== undefined && remainingMs <= 0
+  const hasDeadline = remainingMs !== undefined
+  const seats = trip.waitlist?.seats ?? 1
+  const isPending = useTripMutationPending(trip.id)
+
+  useEffect(() => {
+    if (hasExpired) {
+      // The backend has moved on; refetch to show where things stand now
+      invalidateTripQueries()
+      return
+    }
+    if (!hasDeadline) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [hasExpired, hasDeadline])
+
+  if (hasExpired) {
+    return (
+      <div className="text-sm text-gray-600 bg-gray-50 px-3 py-2 rounded-lg mb-4">
+        The seat offer has expired.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+      <div className="flex items-start gap-2 text-sm text-amber-900">
+        <BellRing className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p>
+          {seats === 1 ? 'A seat' : `${seats} seats`} opened up for you! Take {seats === 1 ? 'it' : 'them'}{' '}
+          {remainingMs !== undefined ? (
+            <>
+              within <span className="font-semibold" role="timer">{formatRemaining(remainingMs)}</span> or
+            </>
+          ) : (
+            'before'
+          )}{' '}
+          {seats === 1 ? 'it goes' : 'they go'} to the next person in line.
+        </p>
+      </div>
+      <div className="flex space-x-2 mt-3">
+        <Button
+          onClick={() => acceptSeatOfferOptimistically(trip)}
+          disabled={isPending}
+          size="sm"
+          className="bg-green-500 hover:bg-green-600"
+        >
+          Accept Seat
+        </Button>
+        <Button
+          onClick={() => leaveWaitlistOptimistically(trip)}
+          disabled={isPending}
+          size="sm"
+          variant="outline"
+        >
+          Decline
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useId } from 'react'
+import { JoinTripData } from '@/types/trip'
+
+interface SeatSelectorProps {
+  booking: JoinTripData
+  onChange: (booking: JoinTripData) => void
+  // Seats still free on the trip
+  maxSeats: number
+  pricePerPerson: number
+}
+
+// Seats for the passenger plus anyone travelling with them, named one per extra seat
+export default function SeatSelector({ booking, onChange, maxSeats, pricePerPerson }: SeatSelectorProps) {
+  const id = useId()
+  const companions = booking.companions ?? []
+
+  const setSeats = (seats: number) => {
+    onChange({ seats, companions: Array.from({ length: seats - 1 }, (_, index) => companions[index] ?? '') })
+  }
+
+  const setCompanion = (index: number, name: string) => {
+    onChange({ ...booking, companions: companions.map((other, i) => (i === index ? name : other)) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor={`${id}-seats`} className="block text-sm font-medium text-gray-700 mb-1">
+          Seats
+        </label>
+        <select
+          id={`${id}-seats`}
+          value={booking.seats}
+          onChange={(e) => setSeats(Number(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Array.from({ length: Math.max(maxSeats, 1) }, (_, index) => index + 1).map(seats => (
+            <option key={seats} value={seats}>
+              {seats === 1 ? 'Just me' : `Me + ${seats - 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {companions.map((name, index) => (
+        <div key={index}>
+          <label htmlFor={`${id}-companion-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+            Companion {index + 1}
+          </label>
+          <input
+            id={`${id}-companion-${index}`}
+            type="text"
+            value={name}
+            onChange={(e) => setCompanion(index, e.target.value)}
+            placeholder="Full name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      ))}
+
+      <p className="text-sm text-gray-700">
+        Total: <span className="font-semibold">₹{booking.seats * pricePerPerson}</span>
+        {booking.seats > 1 && <span className="text-gray-500"> ({booking.seats} × ₹{pricePerPerson})</span>}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,613 @@
+import { act, screen, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import TripCard from '@/components/trips/TripCard'
+import { useAuth } from '@/hooks/useAuth'
+import { useTrips } from '@/hooks/useTrips'
+import { invalidateTripQueries } from '@/lib/queryCache'
+import { TOAST } from '@/lib/constants'
+import { getMockTrip, mockApi, renderWithProviders, signInAs } from '@/test/render'
+import { Trip } from '@/types/trip'
+
+// Optimistic changes are written to the query cache, so the flows render the
+// card the way pages do: from the cached trip list
+function CachedTrip({ tripId }: { tripId: number }) {
+  const { trips } = useTrips()
+  return (
+    <>
+      {trips.filter(trip => trip.id === tripId).map(trip => <TripCard key={trip.id} trip={trip} />)}
+    </>
+  )
+}
+
+// Renders the card from a fixed trip once the session has loaded, so nothing
+// else is waiting on the server when the test slows it down
+function SignedInTrip({ trip }: { trip: Trip }) {
+  const { user } = useAuth()
+  return user ? <TripCard trip={trip} /> : null
+}
+
+const storedTrip = (tripId: number) => mockApi().db.trips.find(trip => trip.id === tripId)
+
+describe('TripCard states', () => {
+  it('shows the driver their own trip with edit and delete actions', () => {
+    signInAs('asha@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(1, 'asha@example.com')} />)
+
+    expect(screen.getByText('Your Trip')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Edit trip' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Delete trip' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Join Trip/ })).not.toBeInTheDocument()
+  })
+
+  it('shows a passenger that they are on the trip', () => {
+    signInAs('rohan@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(1, 'rohan@example.com')} />)
+
+    expect(screen.getByText("You're Joining")).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Edit trip' })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Join Trip/ })).not.toBeInTheDocument()
+  })
+
+  it('lets anyone else join a trip with free seats', () => {
+    signInAs('rohan@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(2, 'rohan@example.com')} />)
+
+    expect(screen.getByRole('button', { name: /Join Trip/ })).toBeEnabled()
+    expect(screen.getByText('0/4 passengers')).toBeInTheDocument()
+  })
+
+  it('marks a full trip and hides the join button', () => {
+    signInAs('rohan@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(3, 'rohan@example.com')} />)
+
+    expect(screen.getByText('Trip Full')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Join Trip/ })).not.toBeInTheDocument()
+  })
+
+  it('asks unverified riders to verify before joining a verified-only trip', async () => {
+    signInAs('meera@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(4, 'meera@example.com')} />)
+
+    expect(await screen.findByRole('link', { name: 'Verify phone to join' })).toHaveAttribute('href', '/dashboard/profile')
+    expect(screen.queryByRole('button', { name: /Join Trip/ })).not.toBeInTheDocument()
+  })
+})
+
+describe('TripCard join', () => {
+  it('shows the seat straight away and keeps it once the server agrees', async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: /Join Trip/ }))
+
+    expect(screen.getByText("You're Joining")).toBeInTheDocument()
+    expect(screen.getByText('1/4 passengers')).toBeInTheDocument()
+    expect(await screen.findByText('You joined Bengaluru → Mysuru')).toBeInTheDocument()
+    expect(storedTrip(2)?.passengerIds).toContain(2)
+  })
+
+  it('gives the seat back when someone else took the last one', async () => {
+    signInAs('rohan@example.com')
+    mockApi().setScenario('full-trip')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: /Join Trip/ }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      "Couldn't join Bengaluru → Mysuru: This trip is already full. Your change has been undone."
+    )
+    expect(screen.queryByText("You're Joining")).not.toBeInTheDocument()
+    expect(screen.getByText('0/4 passengers')).toBeInTheDocument()
+    expect(storedTrip(2)?.passengerIds).toEqual([])
+  })
+})
+
+describe('TripCard group booking', () => {
+  it('books several seats with named companions and shows the total', async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: /Book Seats/ }))
+    await user.selectOptions(screen.getByLabelText('Seats'), '3')
+    await user.type(screen.getByLabelText('Companion 1'), 'Anya Rao')
+    await user.type(screen.getByLabelText('Companion 2'), 'Dev Rao')
+    expect(screen.getByText('₹900')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Confirm Booking' }))
+
+    expect(screen.getByText('3/4 passengers')).toBeInTheDocument()
+    expect(await screen.findByText('You booked 3 seats on Bengaluru → Mysuru')).toBeInTheDocument()
+    expect(storedTrip(2)?.bookings[2]).toEqual({ seats: 3, companions: ['Anya Rao', 'Dev Rao'] })
+    expect(await screen.findByText(/Your booking: 3 seats/)).toHaveTextContent('₹900 total')
+  })
+
+  it('only offers a group booking while more than one seat is left', async () => {
+    signInAs('asha@example.com')
+    renderWithProviders(<CachedTrip tripId={5} />)
+
+    expect(await screen.findByRole('button', { name: /Join Trip/ })).toBeEnabled()
+    expect(screen.getByText('2/3 passengers')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Book Seats/ })).not.toBeInTheDocument()
+  })
+
+  it("shows the driver each passenger's seats and companions", async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={5} />)
+
+    await user.click(await screen.findByRole('button', { name: /View Passenger Details/ }))
+
+    expect(screen.getByText(/Passenger #1 · 2 seats/)).toBeInTheDocument()
+    expect(screen.getByText('Travelling with Zoya Khan')).toBeInTheDocument()
+  })
+})
+
+describe('TripCard waitlist', () => {
+  const waitlistEntry = (tripId: number, passengerId: number) =>
+    mockApi().db.waitlist.find(entry => entry.tripId === tripId && entry.passengerId === passengerId)
+
+  it('puts the viewer in line for a full trip and shows their position', async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={3} />)
+
+    await user.click(await screen.findByRole('button', { name: /Join Waitlist/ }))
+    expect(screen.getByText(/1 person is ahead of you/)).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Add Me to Waitlist' }))
+
+    expect(screen.getByText('Waitlist #2')).toBeInTheDocument()
+    expect(await screen.findByText("You're #2 on the waitlist for Delhi → Jaipur")).toBeInTheDocument()
+    expect(waitlistEntry(3, 2)).toMatchObject({ seats: 1 })
+    expect(screen.queryByText('Trip Full')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Leave Waitlist' }))
+    expect(await screen.findByText('You left the waitlist for Delhi → Jaipur')).toBeInTheDocument()
+    expect(waitlistEntry(3, 2)).toBeUndefined()
+  })
+
+  it('offers the freed seat to the front of the line when a passenger cancels', async () => {
+    signInAs('meera@example.com')
+    renderWithProviders(<CachedTrip tripId={3} />)
+
+    expect(await screen.findByText('Waitlist #1')).toBeInTheDocument()
+
+    // Kabir leaves from another device
+    storedTrip(3)!.passengerIds = [1]
+    act(() => invalidateTripQueries())
+
+    expect(await screen.findByText(/opened up for you/)).toBeInTheDocument()
+    expect(screen.getByRole('timer')).toHaveTextContent('15:00')
+    expect(waitlistEntry(3, 3)?.offerExpiresAt).toBeDefined()
+  })
+
+  it('moves an accepted offer onto the trip', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={4} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Accept Seat' }))
+
+    expect(screen.getByText("You're Joining")).toBeInTheDocument()
+    expect(await screen.findByText('You joined Hyderabad → Vijayawada')).toBeInTheDocument()
+    expect(storedTrip(4)?.passengerIds).toContain(1)
+    expect(waitlistEntry(4, 1)).toBeUndefined()
+  })
+
+  it('holds the offer buttons while the answer is being sent', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<SignedInTrip trip={getMockTrip(4, 'asha@example.com')} />)
+    const accept = await screen.findByRole('button', { name: 'Accept Seat' })
+
+    // A slow server keeps the answer in flight
+    mockApi().setScenario('cold-start')
+    await user.click(accept)
+
+    expect(screen.getByRole('button', { name: 'Accept Seat' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Decline' })).toBeDisabled()
+
+    act(() => {
+      vi.advanceTimersByTime(8000)
+    })
+
+    expect(await screen.findByText('You joined Hyderabad → Vijayawada')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Accept Seat' })).toBeEnabled()
+  })
+
+  it('keeps an offer without a deadline open and shows no countdown', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const trip = getMockTrip(4, 'asha@example.com')
+    renderWithProviders(<TripCard trip={{ ...trip, waitlist: { status: 'offered', seats: 1 } }} />)
+
+    expect(screen.getByText(/Take it before it goes to the next person in line/)).toBeInTheDocument()
+    expect(screen.queryByRole('timer')).not.toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(60 * 60 * 1000)
+    })
+
+    expect(screen.getByRole('button', { name: 'Accept Seat' })).toBeEnabled()
+    expect(screen.queryByText('The seat offer has expired.')).not.toBeInTheDocument()
+  })
+
+  it('lets the offer lapse once the accept window has passed', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    renderWithProviders(<CachedTrip tripId={4} />)
+
+    expect(await screen.findByRole('timer')).toHaveTextContent('10:00')
+
+    act(() => {
+      vi.advanceTimersByTime(10 * 60 * 1000)
+    })
+
+    // The refetch finds the offer gone and the seat open to everyone again
+    expect(await screen.findByRole('button', { name: /Join Trip/ })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Accept Seat' })).not.toBeInTheDocument()
+    expect(waitlistEntry(4, 1)).toBeUndefined()
+  })
+})
+
+describe('TripCard edit', () => {
+  it('applies the change right away and can be undone before it is sent', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit trip' }))
+    const price = screen.getByDisplayValue('300')
+    await user.clear(price)
+    await user.type(price, '350')
+    await user.click(screen.getByRole('button', { name: 'Update Trip' }))
+
+    expect(screen.getByText('₹350')).toBeInTheDocument()
+    expect(screen.getByText('Saved changes to Bengaluru → Mysuru')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Undo' }))
+
+    expect(screen.getByText('₹300')).toBeInTheDocument()
+    expect(storedTrip(2)?.pricePerPerson).toBe(300)
+  })
+
+  it('sends the change once the undo window has passed', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit trip' }))
+    const price = screen.getByDisplayValue('300')
+    await user.clear(price)
+    await user.type(price, '350')
+    await user.click(screen.getByRole('button', { name: 'Update Trip' }))
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(2)?.pricePerPerson).toBe(350))
+    expect(storedTrip(2)?.from).toBe('Bengaluru')
+    // The refetch after the save agrees with the optimistic view
+    expect(screen.getByText('₹350')).toBeInTheDocument()
+  })
+
+  it('rolls back and reopens the form when the server rejects the change', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit trip' }))
+    const price = screen.getByDisplayValue('300')
+    await user.clear(price)
+    await user.type(price, '350')
+    await user.click(screen.getByRole('button', { name: 'Update Trip' }))
+
+    mockApi().setScenario('server-down')
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't save changes to Bengaluru → Mysuru")
+    expect(screen.getByText('₹300')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Update Trip' })).toBeInTheDocument()
+    expect(screen.getByDisplayValue('350')).toBeInTheDocument()
+  })
+})
+
+describe('TripCard delete', () => {
+  it('hides the trip and deletes it once the undo window has passed', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Delete trip' }))
+    await user.click(screen.getByRole('button', { name: 'Delete Trip' }))
+
+    expect(screen.queryByText('Bengaluru')).not.toBeInTheDocument()
+    expect(screen.getByText('Deleted Bengaluru → Mysuru')).toBeInTheDocument()
+    expect(storedTrip(2)).toBeDefined()
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(2)).toBeUndefined())
+    expect(screen.queryByText('Bengaluru')).not.toBeInTheDocument()
+  })
+
+  it('brings the trip back on undo without calling the API', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={2} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Delete trip' }))
+    await user.click(screen.getByRole('button', { name: 'Delete Trip' }))
+    expect(screen.queryByText('Bengaluru')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Undo' }))
+
+    expect(screen.getByText('Bengaluru')).toBeInTheDocument()
+    expect(storedTrip(2)).toBeDefined()
+  })
+})
+
+describe('TripCard leave', () => {
+  const driverActivity = (driverId: number) =>
+    mockApi().db.activity.filter(entry => entry.userId === driverId && entry.action.startsWith('passenger_left'))
+
+  it('holds the leave button until the leave has been sent', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<SignedInTrip trip={getMockTrip(1, 'rohan@example.com')} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Leave' }))
+    await user.selectOptions(screen.getByLabelText('Reason'), 'plans_changed')
+    await user.click(screen.getByRole('button', { name: 'Leave Trip' }))
+
+    expect(screen.getByRole('button', { name: 'Leave' })).toBeDisabled()
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(1)?.passengerIds).not.toContain(2))
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Leave' })).toBeEnabled())
+  })
+
+  it('gives the seat back and tells the driver it was a late cancellation', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={1} />)
+
+    await user.click(await screen.findByRole('button', { name: /Leave/ }))
+    expect(screen.getByText(/late cancellation/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Leave Trip' })).toBeDisabled()
+
+    await user.selectOptions(screen.getByLabelText('Reason'), 'plans_changed')
+    await user.type(screen.getByLabelText(/Message for the driver/), 'Sorry, meeting moved')
+    await user.click(screen.getByRole('button', { name: 'Leave Trip' }))
+
+    expect(screen.queryByText("You're Joining")).not.toBeInTheDocument()
+    expect(screen.getByText('0/3 passengers')).toBeInTheDocument()
+    expect(screen.getByText('You left Pune → Mumbai Airport')).toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(1)?.passengerIds).not.toContain(2))
+    expect(driverActivity(1)[0]).toMatchObject({
+      action: 'passenger_left_late',
+      details: 'Rohan Rider left Pune → Mumbai Airport (late cancellation): My plans changed "Sorry, meeting moved"'
+    })
+  })
+
+  it("doesn't flag leaving well before departure", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('kabir@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={4} />)
+
+    await user.click(await screen.findByRole('button', { name: /Leave/ }))
+    expect(screen.queryByText(/late cancellation/)).not.toBeInTheDocument()
+    await user.selectOptions(screen.getByLabelText('Reason'), 'found_other_ride')
+    await user.click(screen.getByRole('button', { name: 'Leave Trip' }))
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(4)?.passengerIds).not.toContain(5))
+    expect(driverActivity(6)[0].action).toBe('passenger_left')
+  })
+
+  it('keeps the seat on undo without telling the driver', async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={1} />)
+
+    await user.click(await screen.findByRole('button', { name: /Leave/ }))
+    await user.selectOptions(screen.getByLabelText('Reason'), 'emergency')
+    await user.click(screen.getByRole('button', { name: 'Leave Trip' }))
+    await user.click(screen.getByRole('button', { name: 'Undo' }))
+
+    expect(screen.getByText("You're Joining")).toBeInTheDocument()
+    expect(screen.getByText('1/3 passengers')).toBeInTheDocument()
+    expect(storedTrip(1)?.passengerIds).toContain(2)
+    expect(driverActivity(1)).toHaveLength(0)
+  })
+})
+
+describe('TripCard join requests', () => {
+  it('sends a request with a note and shows it as pending', async () => {
+    signInAs('rohan@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={8} />)
+
+    expect(await screen.findByText(/Approval required/)).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /Request to Join/ }))
+    await user.type(screen.getByLabelText(/Note to the driver/), 'Pickup near the station please')
+    await user.click(screen.getByRole('button', { name: 'Send Request' }))
+
+    expect(screen.getByText('Request Pending')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Request to Join/ })).not.toBeInTheDocument()
+    expect(await screen.findByText('Request sent to join Pune → Goa')).toBeInTheDocument()
+    expect(mockApi().db.matches.at(-1)).toMatchObject({
+      tripId: 8,
+      passengerId: 2,
+      status: 'pending',
+      note: 'Pickup near the station please'
+    })
+    expect(storedTrip(8)?.passengerIds).not.toContain(2)
+  })
+
+  it('shows a passenger that the driver declined their request', () => {
+    signInAs('neha@example.com')
+    renderWithProviders(<TripCard trip={getMockTrip(8, 'neha@example.com')} />)
+
+    expect(screen.getByText('Request Declined')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Request to Join/ })).not.toBeInTheDocument()
+  })
+
+  it('lets the driver accept a pending request', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={8} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Review Requests (1)' }))
+    expect(await screen.findByText(/Two of us with light bags/)).toBeInTheDocument()
+    expect(screen.getByText('With Ira Mehta')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Accept Kabir Passenger' }))
+
+    // Kabir asked for two seats, one for his companion
+    expect(screen.getByText('2/3 passengers')).toBeInTheDocument()
+    expect(await screen.findByText('Kabir Passenger is joining Pune → Goa')).toBeInTheDocument()
+    expect(storedTrip(8)?.passengerIds).toContain(5)
+    expect(await screen.findByText('No pending requests.')).toBeInTheDocument()
+  })
+
+  it('lets the driver decline a pending request without giving up a seat', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={8} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Review Requests (1)' }))
+    await user.click(await screen.findByRole('button', { name: 'Decline Kabir Passenger' }))
+
+    expect(await screen.findByText("Declined Kabir Passenger's request")).toBeInTheDocument()
+    expect(screen.getByText('0/3 passengers')).toBeInTheDocument()
+    expect(mockApi().db.matches.find(match => match.id === 1)?.status).toBe('declined')
+    expect(storedTrip(8)?.passengerIds).not.toContain(5)
+  })
+})
+
+describe('TripCard trip lifecycle', () => {
+  const passengerActivity = (passengerId: number) =>
+    mockApi().db.activity.filter(entry => entry.userId === passengerId && entry.action.startsWith('trip_'))
+
+  it('lets the driver start a trip close to departure and then complete it', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={9} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Start Trip' }))
+
+    expect(screen.getByText(/On the way/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Edit trip' })).not.toBeInTheDocument()
+    expect(await screen.findByText('Started Mumbai → Nashik')).toBeInTheDocument()
+    expect(storedTrip(9)?.status).toBe('in_progress')
+    expect(passengerActivity(2)[0]).toMatchObject({ action: 'trip_started' })
+
+    await user.click(screen.getByRole('button', { name: 'Complete Trip' }))
+
+    expect(screen.getByText(/Trip completed/)).toBeInTheDocument()
+    expect(await screen.findByText('Completed Mumbai → Nashik')).toBeInTheDocument()
+    expect(storedTrip(9)?.status).toBe('completed')
+    expect(passengerActivity(2)[0]).toMatchObject({ action: 'trip_completed' })
+  })
+
+  it('holds the lifecycle buttons until the start has been sent', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={9} />)
+    const start = await screen.findByRole('button', { name: 'Start Trip' })
+
+    mockApi().setScenario('cold-start')
+    await user.click(start)
+
+    expect(screen.getByRole('button', { name: 'Complete Trip' })).toBeDisabled()
+
+    act(() => {
+      vi.advanceTimersByTime(8000)
+    })
+
+    expect(await screen.findByText('Started Mumbai → Nashik')).toBeInTheDocument()
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Complete Trip' })).toBeEnabled())
+  })
+
+  it('holds the cancel button until the cancellation has been sent', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<SignedInTrip trip={getMockTrip(1, 'asha@example.com')} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Cancel Trip' }))
+    await user.selectOptions(screen.getByLabelText('Reason'), 'weather')
+    await user.click(screen.getByRole('button', { name: 'Confirm Cancellation' }))
+
+    expect(screen.getByRole('button', { name: 'Cancel Trip' })).toBeDisabled()
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(1)?.status).toBe('cancelled'))
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Cancel Trip' })).toBeEnabled())
+  })
+
+  it("doesn't offer to start a trip that leaves later", async () => {
+    signInAs('asha@example.com')
+    renderWithProviders(<CachedTrip tripId={1} />)
+
+    expect(await screen.findByRole('button', { name: 'Cancel Trip' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Start Trip' })).not.toBeInTheDocument()
+  })
+
+  it('cancels with a reason, keeps the trip and tells its passengers why', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<CachedTrip tripId={1} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Cancel Trip' }))
+    expect(screen.getByRole('button', { name: 'Confirm Cancellation' })).toBeDisabled()
+
+    await user.selectOptions(screen.getByLabelText('Reason'), 'vehicle_issue')
+    await user.type(screen.getByLabelText(/Message for passengers/), 'Flat tyre, sorry')
+    await user.click(screen.getByRole('button', { name: 'Confirm Cancellation' }))
+
+    expect(screen.getByText('Cancelled by you: Problem with the vehicle')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Cancel Trip' })).not.toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(TOAST.UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => expect(storedTrip(1)?.status).toBe('cancelled'))
+    expect(storedTrip(1)).toMatchObject({ cancellationReason: 'vehicle_issue', cancellationNote: 'Flat tyre, sorry' })
+    expect(passengerActivity(2)[0]).toMatchObject({
+      action: 'trip_cancelled',
+      details: 'Asha Driver cancelled Pune → Mumbai Airport: Problem with the vehicle "Flat tyre, sorry"'
+    })
+  })
+
+  it('shows a trip as departed once its departure time passes', async () => {
+    storedTrip(1)!.departureTime = new Date(Date.now() - 10 * 60 * 1000).toISOString()
+    signInAs('rohan@example.com')
+    renderWithProviders(<CachedTrip tripId={1} />)
+
+    expect(await screen.findByText('Departed: waiting for the driver to start the trip')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Leave/ })).not.toBeInTheDocument()
+  })
+
+  it('tells a passenger when the driver cancels their trip', async () => {
+    signInAs('rohan@example.com')
+    renderWithProviders(<CachedTrip tripId={9} />)
+
+    expect(await screen.findByText("You're Joining")).toBeInTheDocument()
+
+    // The driver cancels from their own device
+    Object.assign(storedTrip(9)!, { status: 'cancelled', cancellationReason: 'weather' })
+    act(() => invalidateTripQueries())
+
+    expect(await screen.findByText('Asha Driver cancelled Mumbai → Nashik')).toBeInTheDocument()
+    expect(screen.getByText('Cancelled by Asha Driver: Weather or road conditions')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Leave/ })).not.toBeInTheDocument()
+  })
+})
@@ -1,11 +1,35 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from '@/components/ui/Button'
 import { Modal } from '@/components/ui/Modal'
-import { updateTrip, deleteTrip, joinTrip } from '@/lib/api'
+import { VerifiedBadge } from '@/components/ui/VerifiedBadge'
+import TripRequests from '@/components/trips/TripRequests'
+import SeatSelector from '@/components/trips/SeatSelector'
+import SeatOffer from '@/components/trips/SeatOffer'
+import Link from 'next/link'
+import { getErrorMessage } from '@/lib/errors'
+import { isLateCancellation } from '@/lib/cancellation'
+import { invalidateTripQueries } from '@/lib/queryCache'
+import { showToast } from '@/lib/toast'
+import {
+  cancelTripOptimistically,
+  completeTripOptimistically,
+  deleteTripOptimistically,
+  joinTripOptimistically,
+  joinWaitlistOptimistically,
+  leaveTripOptimistically,
+  leaveWaitlistOptimistically,
+  requestToJoinOptimistically,
+  startTripOptimistically,
+  updateTripOptimistically
+} from '@/lib/tripMutations'
 import { useAuth } from '@/hooks/useAuth'
-import { Trip } from '@/types/trip'
+import { useTripPhase } from '@/hooks/useTripPhase'
+import { useTripMutationPending } from '@/hooks/useTripMutationPending'
+import { CANCELLATION_REASONS, MESSAGES, TRIP_CANCELLATION_REASONS } from '@/lib/constants'
+import { runtimeConfig } from '@/lib/config'
+import { CancellationReason, JoinTripData, Trip, TripCancellationReason } from '@/types/trip'
 import { 
   MapPin, 
   Calendar, 
@@ -22,7 +46,17 @@ import {
   ChevronUp,
   ContactIcon,
   Mail,
-  MessageCircle
+  MessageCircle,
+  ShieldCheck,
+  Hourglass,
+  Inbox,
+  LogOut,
+  AlertTriangle,
+  Play,
+  Flag,
+  Ban,
+  Navigation,
+  CheckCircle2
 } from 'lucide-react'
 
 interface TripCardProps {
@@ -33,6 +67,15 @@ interface TripCardProps {
   onJoin?: (tripId: number) => Promise<void>
 }
 
+// What a passenger is told when the driver moves their trip along
+const statusChangeMessage = (trip: Trip): string | undefined => {
+  const route = `${trip.from} → ${trip.to}`
+  if (trip.status === 'in_progress') return `${route} has started`
+  if (trip.status === 'completed') return `${route} is complete`
+  if (trip.status === 'cancelled') return `${trip.driver?.name ?? 'The driver'} cancelled ${route}`
+  return undefined
+}
+
 export default function TripCard({ 
   trip, 
   onUpdate, 
@@ -44,24 +87,66 @@ export default function TripCard({
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [isPassengerDetailsModalOpen, setIsPassengerDetailsModalOpen] = useState(false)
+  const [isRequestModalOpen, setIsRequestModalOpen] = useState(false)
+  const [requestNote, setRequestNote] = useState('')
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false)
+  const [isWaitlistModalOpen, setIsWaitlistModalOpen] = useState(false)
+  const [booking, setBooking] = useState<JoinTripData>({ seats: 1, companions: [] })
+  const [showRequests, setShowRequests] = useState(false)
+  const [isLeaveModalOpen, setIsLeaveModalOpen] = useState(false)
+  const [leaveReason, setLeaveReason] = useState<CancellationReason | ''>('')
+  const [leaveNote, setLeaveNote] = useState('')
+  const [isCancelModalOpen, setIsCancelModalOpen] = useState(false)
+  const [cancelReason, setCancelReason] = useState<TripCancellationReason | ''>('')
+  const [cancelNote, setCancelNote] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [isAnimating, setIsAnimating] = useState(false)
   const [localTrip, setLocalTrip] = useState(trip)
+
+  // Optimistic updates and background refetches arrive as a new trip prop
+  useEffect(() => {
+    setLocalTrip(trip)
+  }, [trip])
+
+  // A refetch that moves the viewer's trip along is worth telling them about
+  const lastStatus = useRef(trip.status)
+  useEffect(() => {
+    if (trip.status === lastStatus.current) return
+    lastStatus.current = trip.status
+    const message = trip.userRole === 'passenger' ? statusChangeMessage(trip) : undefined
+    if (message) showToast({ variant: 'info', message })
+  }, [trip])
   const [showPassengerDetails, setShowPassengerDetails] = useState(false)
   
   const [editData, setEditData] = useState({
-    from_location: localTrip.from,
-    to_location: localTrip.to,
-    departure_time: new Date(localTrip.departureTime).toISOString().slice(0, 16),
-    max_passengers: localTrip.maxPassengers,
-    price_per_person: localTrip.pricePerPerson,
-    description: localTrip.description
+    from: localTrip.from,
+    to: localTrip.to,
+    departureTime: new Date(localTrip.departureTime).toISOString().slice(0, 16),
+    maxPassengers: localTrip.maxPassengers,
+    pricePerPerson: localTrip.pricePerPerson,
+    description: localTrip.description ?? ''
   })
 
   const isOwner = user?.id === localTrip.driverId || localTrip.userRole === 'driver'
   const isPassenger = localTrip.userRole === 'passenger'
-  const canJoin = !isOwner && !isPassenger && localTrip.currentPassengers < localTrip.maxPassengers
-  const isFull = localTrip.currentPassengers >= localTrip.maxPassengers
+  const { phase, canStart } = useTripPhase(localTrip)
+  const isMutationPending = useTripMutationPending(localTrip.id)
+  // Seats can only be booked, requested or given up before the trip leaves
+  const isOpen = phase === 'active'
+  // Seats offered to the waitlist aren't free for anyone else
+  const takenSeats = localTrip.currentPassengers + (localTrip.seatsOnHold ?? 0)
+  const isFull = takenSeats >= localTrip.maxPassengers
+  const remainingSeats = Math.max(localTrip.maxPassengers - takenSeats, 0)
+  // Drivers can limit their trip to riders with a verified phone number
+  const needsVerification = !!localTrip.verifiedPassengersOnly && !user?.isVerified
+  // On approval trips the viewer's request decides what they see instead of the join button
+  const hasPendingRequest = !isPassenger && localTrip.requestStatus === 'pending'
+  const wasDeclined = !isPassenger && localTrip.requestStatus === 'declined'
+  const waitlist = isPassenger ? undefined : localTrip.waitlist
+  const isOutsider = !isOwner && !isPassenger && !hasPendingRequest && !wasDeclined && !waitlist
+  const canJoin = isOpen && isOutsider && !isFull && !needsVerification
+  const canWaitlist = isOpen && isOutsider && isFull && !needsVerification && !localTrip.requiresApproval
+  const driverIsVerified = localTrip.driver?.isVerified ?? (isOwner && user?.isVerified)
 
   // Phone number formatting function
   const formatPhoneNumber = (phoneNumber: string): string => {
@@ -106,21 +191,19 @@ export default function TripCard({
     }
   }
 
-  const handleJoin = async () => {
+  const resetBooking = () => setBooking({ seats: 1, companions: [] })
+
+  const handleJoin = async (seatBooking: JoinTripData = { seats: 1 }) => {
     if (!onJoin) {
-      setIsLoading(true)
-      try {
-        await joinTrip(localTrip.id)
-        const updatedTrip = { ...localTrip, currentPassengers: localTrip.currentPassengers + 1 }
-        setLocalTrip(updatedTrip)
-        onUpdate?.(updatedTrip)
-        
-        setIsAnimating(true)
-        setTimeout(() => setIsAnimating(false), 1000)
-      } catch (error: any) {
-        alert(error.message)
-      } finally {
-        setIsLoading(false)
+      setIsBookingModalOpen(false)
+      setIsAnimating(true)
+      setTimeout(() => setIsAnimating(false), 1000)
+      const outcome = await joinTripOptimistically(localTrip, seatBooking)
+      if (outcome.status === 'committed') {
+        resetBooking()
+      } else if (outcome.status === 'failed' && ['TRIP_FULL', 'NOT_ENOUGH_SEATS'].includes(outcome.error.code ?? '')) {
+        // Someone else took the seats; refetch so every list shows what is left
+        invalidateTripQueries()
       }
     } else {
       setIsLoading(true)
@@ -128,43 +211,83 @@ export default function TripCard({
         await onJoin(localTrip.id)
         setIsAnimating(true)
         setTimeout(() => setIsAnimating(false), 1000)
-      } catch (error: any) {
-        alert(error.message)
+      } catch (error) {
+        alert(getErrorMessage(error, 'Failed to join trip'))
       } finally {
         setIsLoading(false)
       }
     }
   }
 
+  const handleRequest = async () => {
+    setIsRequestModalOpen(false)
+    const outcome = await requestToJoinOptimistically(localTrip, requestNote, booking)
+    if (outcome.status === 'committed') {
+      setRequestNote('')
+      resetBooking()
+    } else if (outcome.status === 'failed' && ['TRIP_FULL', 'NOT_ENOUGH_SEATS'].includes(outcome.error.code ?? '')) {
+      invalidateTripQueries()
+    }
+  }
+
+  const handleJoinWaitlist = async () => {
+    setIsWaitlistModalOpen(false)
+    const outcome = await joinWaitlistOptimistically(localTrip, booking)
+    if (outcome.status === 'committed') {
+      resetBooking()
+    } else if (outcome.status === 'failed' && outcome.error.code === 'SEATS_AVAILABLE') {
+      // A seat freed up in the meantime; refetch so the join button comes back
+      invalidateTripQueries()
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!leaveReason) return
+    setIsLeaveModalOpen(false)
+    const outcome = await leaveTripOptimistically(localTrip, { reason: leaveReason, note: leaveNote })
+    if (outcome.status === 'committed') {
+      setLeaveReason('')
+      setLeaveNote('')
+    } else if (outcome.status === 'failed') {
+      setIsLeaveModalOpen(true)
+    }
+  }
+
+  const handleCancelTrip = async () => {
+    if (!cancelReason) return
+    setIsCancelModalOpen(false)
+    const outcome = await cancelTripOptimistically(localTrip, { reason: cancelReason, note: cancelNote })
+    if (outcome.status === 'committed') {
+      setCancelReason('')
+      setCancelNote('')
+    } else if (outcome.status === 'failed') {
+      setIsCancelModalOpen(true)
+    }
+  }
+
   const handleEdit = async () => {
-    setIsLoading(true)
-    try {
-      const updatedTrip = await updateTrip(localTrip.id, editData)
-      setLocalTrip(updatedTrip)
-      onUpdate?.(updatedTrip)
-      setIsEditModalOpen(false)
-      
-      setIsAnimating(true)
-      setTimeout(() => setIsAnimating(false), 1000)
-    } catch (error: any) {
-      alert(error.message)
-    } finally {
-      setIsLoading(false)
+    setIsEditModalOpen(false)
+    setIsAnimating(true)
+    setTimeout(() => setIsAnimating(false), 1000)
+
+    const outcome = await updateTripOptimistically(localTrip, {
+      ...editData,
+      departureTime: new Date(editData.departureTime).toISOString()
+    })
+
+    if (outcome.status === 'committed') {
+      onUpdate?.(outcome.result)
+    } else if (outcome.status === 'failed') {
+      // Bring the form back with the user's input so they can fix it
+      setIsEditModalOpen(true)
     }
   }
 
   const handleDelete = async () => {
-    setIsLoading(true)
-    try {
-      await deleteTrip(localTrip.id)
-      
-      setIsAnimating(true)
-      setTimeout(() => {
-        onDelete?.(localTrip.id)
-      }, 500)
-    } catch (error: any) {
-      alert(error.message)
-      setIsLoading(false)
+    setIsDeleteModalOpen(false)
+    const outcome = await deleteTripOptimistically(localTrip)
+    if (outcome.status === 'committed') {
+      onDelete?.(localTrip.id)
     }
   }
 
@@ -206,12 +329,19 @@ export default function TripCard({
                   <span className="text-xs font-medium">Passenger</span>
                 </div>
               )}
+              {isOwner && !!localTrip.pendingRequests && (
+                <div className="flex items-center space-x-1 bg-amber-400/90 text-amber-950 rounded-full px-2 py-1">
+                  <Inbox className="h-3 w-3" />
+                  <span className="text-xs font-medium">{localTrip.pendingRequests} new</span>
+                </div>
+              )}
               
-              {/* Edit/Delete buttons only for trip owners */}
-              {isOwner && showActions && (
+              {/* Edit/Delete buttons only for trip owners, until the trip starts */}
+              {isOwner && showActions && localTrip.status === 'active' && (
                 <div className="flex space-x-2">
                   <button
                     onClick={() => setIsEditModalOpen(true)}
+                    aria-label="Edit trip"
                     className="p-2 rounded-full bg-white/20 hover:bg-white/30 transition-colors"
                     disabled={isLoading}
                   >
@@ -219,6 +349,7 @@ export default function TripCard({
                   </button>
                   <button
                     onClick={() => setIsDeleteModalOpen(true)}
+                    aria-label="Delete trip"
                     className="p-2 rounded-full bg-red-500/20 hover:bg-red-500/30 transition-colors"
                     disabled={isLoading}
                   >
@@ -263,6 +394,87 @@ export default function TripCard({
             </p>
           )}
 
+          {localTrip.verifiedPassengersOnly && (
+            <div className="flex items-center space-x-2 text-xs text-green-700 bg-green-50 px-3 py-2 rounded-lg mb-4">
+              <ShieldCheck className="h-4 w-4" />
+              <span>Verified passengers only</span>
+            </div>
+          )}
+
+          {phase === 'departed' && (
+            <div className="flex items-center space-x-2 text-xs text-amber-800 bg-amber-50 px-3 py-2 rounded-lg mb-4">
+              <Clock className="h-4 w-4" />
+              <span>
+                {isOwner
+                  ? 'Departure time has passed. Start the trip or cancel it.'
+                  : 'Departed: waiting for the driver to start the trip'}
+              </span>
+            </div>
+          )}
+
+          {phase === 'in_progress' && (
+            <div className="flex items-center space-x-2 text-xs text-purple-800 bg-purple-50 px-3 py-2 rounded-lg mb-4">
+              <Navigation className="h-4 w-4" />
+              <span>
+                On the way
+                {localTrip.startedAt && ` since ${new Date(localTrip.startedAt).toLocaleTimeString()}`}
+              </span>
+            </div>
+          )}
+
+          {phase === 'completed' && (
+            <div className="flex items-center space-x-2 text-xs text-blue-800 bg-blue-50 px-3 py-2 rounded-lg mb-4">
+              <CheckCircle2 className="h-4 w-4" />
+              <span>
+                Trip completed
+                {localTrip.completedAt && ` on ${new Date(localTrip.completedAt).toLocaleDateString()}`}
+              </span>
+            </div>
+          )}
+
+          {phase === 'cancelled' && (
+            <div className="text-xs text-red-800 bg-red-50 px-3 py-2 rounded-lg mb-4">
+              <div className="flex items-center space-x-2">
+                <Ban className="h-4 w-4" />
+                <span>
+                  Cancelled by {isOwner ? 'you' : localTrip.driver?.name ?? 'the driver'}
+                  {localTrip.cancellationReason && `: ${TRIP_CANCELLATION_REASONS[localTrip.cancellationReason]}`}
+                </span>
+              </div>
+              {localTrip.cancellationNote && (
+                <p className="mt-1 ml-6 text-red-700">&ldquo;{localTrip.cancellationNote}&rdquo;</p>
+              )}
+            </div>
+          )}
+
+          {waitlist?.status === 'offered' && showActions && <SeatOffer trip={localTrip} />}
+
+          {isOwner && !!localTrip.waitlistLength && (
+            <div className="flex items-center space-x-2 text-xs text-gray-700 bg-gray-50 px-3 py-2 rounded-lg mb-4">
+              <Hourglass className="h-4 w-4" />
+              <span>
+                {localTrip.waitlistLength} waiting for a seat. Freed seats are offered to them first.
+              </span>
+            </div>
+          )}
+
+          {isPassenger && localTrip.seatsBooked !== undefined && (
+            <div className="flex items-center space-x-2 text-xs text-green-700 bg-green-50 px-3 py-2 rounded-lg mb-4">
+              <Users className="h-4 w-4" />
+              <span>
+                Your booking: {localTrip.seatsBooked} seat{localTrip.seatsBooked === 1 ? '' : 's'} · ₹
+                {localTrip.seatsBooked * localTrip.pricePerPerson} total
+              </span>
+            </div>
+          )}
+
+          {localTrip.requiresApproval && (
+            <div className="flex items-center space-x-2 text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-lg mb-4">
+              <Hourglass className="h-4 w-4" />
+              <span>Approval required: the driver accepts each passenger</span>
+            </div>
+          )}
+
           {/* Enhanced Contact Section Based on User Role */}
           <div className="pt-4 border-t border-gray-100 space-y-4">
             {/* Trip Initiator Info */}
@@ -276,8 +488,9 @@ export default function TripCard({
                   {localTrip.driver?.name?.charAt(0) || user?.name?.charAt(0) || 'T'}
                 </div>
                 <div>
-                  <p className="font-medium text-gray-900">
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
                     {localTrip.driver?.name || (isOwner ? user?.name : 'Trip Initiator')}
+                    {driverIsVerified && <VerifiedBadge />}
                   </p>
                   <p className="text-xs text-blue-600 font-medium">Trip Initiator</p>
                 </div>
@@ -287,26 +500,98 @@ export default function TripCard({
               <div className="flex space-x-2">
                 {canJoin && showActions && (
                   <Button
-                    onClick={handleJoin}
+                    onClick={() => localTrip.requiresApproval ? setIsRequestModalOpen(true) : handleJoin()}
                     disabled={isLoading}
                     className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition-all duration-200 transform hover:scale-105"
                   >
                     <UserPlus className="h-4 w-4 mr-1" />
-                    {isLoading ? 'Joining...' : 'Join Trip'}
+                    {isLoading ? 'Joining...' : localTrip.requiresApproval ? 'Request to Join' : 'Join Trip'}
                   </Button>
                 )}
                 
-                {isFull && !isOwner && !isPassenger && (
+                {canJoin && showActions && !localTrip.requiresApproval && remainingSeats > 1 && (
+                  <Button
+                    onClick={() => setIsBookingModalOpen(true)}
+                    disabled={isLoading}
+                    variant="outline"
+                  >
+                    <Users className="h-4 w-4 mr-1" />
+                    Book Seats
+                  </Button>
+                )}
+
+                {needsVerification && isOpen && !isFull && isOutsider && showActions && (
+                  <Link
+                    href="/dashboard/profile"
+                    title={MESSAGES.ERROR.VERIFIED_PASSENGERS_ONLY}
+                    className="bg-amber-100 text-amber-700 px-3 py-2 rounded-lg text-sm font-medium hover:bg-amber-200"
+                  >
+                    Verify phone to join
+                  </Link>
+                )}
+
+                {isOpen && isFull && isOutsider && (
                   <span className="bg-red-100 text-red-600 px-3 py-2 rounded-lg text-sm font-medium">
                     Trip Full
                   </span>
                 )}
+
+                {canWaitlist && showActions && (
+                  <Button
+                    onClick={() => setIsWaitlistModalOpen(true)}
+                    variant="outline"
+                  >
+                    <Hourglass className="h-4 w-4 mr-1" />
+                    Join Waitlist
+                  </Button>
+                )}
+
+                {waitlist?.status === 'waiting' && (
+                  <>
+                    <span className="bg-amber-100 text-amber-700 px-3 py-2 rounded-lg text-sm font-medium">
+                      Waitlist #{waitlist.position}
+                    </span>
+                    {showActions && (
+                      <Button
+                        onClick={() => leaveWaitlistOptimistically(localTrip)}
+                        disabled={isMutationPending}
+                        variant="outline"
+                      >
+                        Leave Waitlist
+                      </Button>
+                    )}
+                  </>
+                )}
                 
                 {isPassenger && (
                   <span className="bg-green-100 text-green-600 px-3 py-2 rounded-lg text-sm font-medium">
                     You're Joining
                   </span>
                 )}
+
+                {isPassenger && showActions && isOpen && (
+                  <Button
+                    onClick={() => setIsLeaveModalOpen(true)}
+                    disabled={isMutationPending}
+                    variant="outline"
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                  >
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Leave
+                  </Button>
+                )}
+
+                {hasPendingRequest && (
+                  <span className="bg-amber-100 text-amber-700 px-3 py-2 rounded-lg text-sm font-medium">
+                    Request Pending
+                  </span>
+                )}
+
+                {wasDeclined && (
+                  <span className="bg-red-100 text-red-600 px-3 py-2 rounded-lg text-sm font-medium">
+                    Request Declined
+                  </span>
+                )}
                 
                 {isOwner && (
                   <span className="bg-blue-100 text-blue-600 px-3 py-2 rounded-lg text-sm font-medium">
@@ -316,6 +601,46 @@ export default function TripCard({
               </div>
             </div>
 
+            {/* Trip lifecycle: the driver starts, completes or calls off the trip */}
+            {isOwner && showActions && (localTrip.status === 'active' || phase === 'in_progress') && (
+              <div className="flex flex-wrap gap-2">
+                {canStart && (
+                  <Button
+                    onClick={() => startTripOptimistically(localTrip)}
+                    disabled={isMutationPending}
+                    size="sm"
+                    className="bg-purple-500 hover:bg-purple-600"
+                  >
+                    <Play className="h-4 w-4 mr-1" />
+                    Start Trip
+                  </Button>
+                )}
+                {phase === 'in_progress' && (
+                  <Button
+                    onClick={() => completeTripOptimistically(localTrip)}
+                    disabled={isMutationPending}
+                    size="sm"
+                    className="bg-blue-500 hover:bg-blue-600"
+                  >
+                    <Flag className="h-4 w-4 mr-1" />
+                    Complete Trip
+                  </Button>
+                )}
+                {localTrip.status === 'active' && (
+                  <Button
+                    onClick={() => setIsCancelModalOpen(true)}
+                    disabled={isMutationPending}
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Cancel Trip
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Phone Number Section */}
             {(localTrip.driver?.phone || user?.phone) && !isOwner && (
               <div className="bg-gray-50 rounded-lg p-3">
@@ -347,6 +672,24 @@ export default function TripCard({
               </div>
             )}
 
+            {isOwner && localTrip.requiresApproval && (
+              <div className="pt-2">
+                <button
+                  onClick={() => setShowRequests(!showRequests)}
+                  aria-expanded={showRequests}
+                  className="flex items-center justify-between w-full text-left text-sm font-medium text-gray-700 hover:text-blue-600 focus:outline-none"
+                >
+                  <span>Review Requests ({localTrip.pendingRequests ?? 0})</span>
+                  {showRequests ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+                </button>
+                {showRequests && (
+                  <div className="mt-2">
+                    <TripRequests trip={localTrip} />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* ✅ NEW: Passenger Details Button for Trip Owner */}
             {isOwner && localTrip.passengers && localTrip.passengers.length > 0 && (
               <div className="pt-2">
@@ -415,69 +758,81 @@ export default function TripCard({
               <p><strong>Route:</strong> {localTrip.from} → {localTrip.to}</p>
               <p><strong>Date:</strong> {new Date(localTrip.departureTime).toLocaleDateString()}</p>
               <p><strong>Time:</strong> {new Date(localTrip.departureTime).toLocaleTimeString()}</p>
-              <p><strong>Passengers:</strong> {localTrip.passengers?.length || 0}/{localTrip.maxPassengers}</p>
+              <p><strong>Seats taken:</strong> {localTrip.currentPassengers}/{localTrip.maxPassengers}</p>
             </div>
           </div>
 
           {localTrip.passengers && localTrip.passengers.length > 0 ? (
             <div className="space-y-4">
               <h4 className="font-medium text-gray-900">Passengers who joined your trip:</h4>
-              {localTrip.passengers.map((passenger, index) => (
-                <div key={passenger.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-12 h-12 rounded-full bg-gradient-to-r from-green-500 to-teal-600 flex items-center justify-center text-white font-semibold text-lg">
-                        {passenger.name?.charAt(0) || 'P'}
-                      </div>
-                      <div>
-                        <h5 className="font-medium text-gray-900">{passenger.name}</h5>
-                        <p className="text-sm text-gray-500">Passenger #{index + 1}</p>
-                        {passenger.email && (
-                          <p className="text-sm text-gray-600">{passenger.email}</p>
-                        )}
+              {localTrip.passengers.map((passenger, index) => {
+                const passengerBooking = localTrip.bookings?.find(other => other.passengerId === passenger.id)
+                return (
+                  <div key={passenger.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-12 h-12 rounded-full bg-gradient-to-r from-green-500 to-teal-600 flex items-center justify-center text-white font-semibold text-lg">
+                          {passenger.name?.charAt(0) || 'P'}
+                        </div>
+                        <div>
+                          <h5 className="font-medium text-gray-900 flex items-center gap-2">
+                            {passenger.name}
+                            {passenger.isVerified && <VerifiedBadge />}
+                          </h5>
+                          <p className="text-sm text-gray-500">
+                            Passenger #{index + 1}
+                            {passengerBooking && ` · ${passengerBooking.seats} seat${passengerBooking.seats === 1 ? '' : 's'}`}
+                          </p>
+                          {passengerBooking && passengerBooking.companions.length > 0 && (
+                            <p className="text-sm text-gray-600">Travelling with {passengerBooking.companions.join(', ')}</p>
+                          )}
+                          {passenger.email && (
+                            <p className="text-sm text-gray-600">{passenger.email}</p>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Contact Options */}
-                  <div className="mt-4 flex flex-wrap gap-2">
-                    {passenger.phone && (
-                      <>
-                        <button
-                          onClick={() => handlePhoneCall(passenger.phone!)}
-                          className="flex items-center space-x-2 bg-green-100 hover:bg-green-200 text-green-700 px-3 py-2 rounded-lg text-sm transition-colors"
-                        >
-                          <Phone className="h-4 w-4" />
-                          <span>Call {formatPhoneNumber(passenger.phone!)}</span>
-                        </button>
+                    {/* Contact Options */}
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      {passenger.phone && (
+                        <>
+                          <button
+                            onClick={() => handlePhoneCall(passenger.phone!)}
+                            className="flex items-center space-x-2 bg-green-100 hover:bg-green-200 text-green-700 px-3 py-2 rounded-lg text-sm transition-colors"
+                          >
+                            <Phone className="h-4 w-4" />
+                            <span>Call {formatPhoneNumber(passenger.phone!)}</span>
+                          </button>
+                          <button
+                            onClick={() => handleSMS(passenger.phone!, passenger.name || 'Passenger')}
+                            className="flex items-center space-x-2 bg-blue-100 hover:bg-blue-200 text-blue-700 px-3 py-2 rounded-lg text-sm transition-colors"
+                          >
+                            <MessageCircle className="h-4 w-4" />
+                            <span>SMS</span>
+                          </button>
+                        </>
+                      )}
+                      {passenger.email && (
                         <button
-                          onClick={() => handleSMS(passenger.phone!, passenger.name || 'Passenger')}
-                          className="flex items-center space-x-2 bg-blue-100 hover:bg-blue-200 text-blue-700 px-3 py-2 rounded-lg text-sm transition-colors"
+                          onClick={() => handleEmail(passenger.email!, passenger.name || 'Passenger')}
+                          className="flex items-center space-x-2 bg-purple-100 hover:bg-purple-200 text-purple-700 px-3 py-2 rounded-lg text-sm transition-colors"
                         >
-                          <MessageCircle className="h-4 w-4" />
-                          <span>SMS</span>
+                          <Mail className="h-4 w-4" />
+                          <span>Email</span>
                         </button>
-                      </>
-                    )}
-                    {passenger.email && (
-                      <button
-                        onClick={() => handleEmail(passenger.email!, passenger.name || 'Passenger')}
-                        className="flex items-center space-x-2 bg-purple-100 hover:bg-purple-200 text-purple-700 px-3 py-2 rounded-lg text-sm transition-colors"
-                      >
-                        <Mail className="h-4 w-4" />
-                        <span>Email</span>
-                      </button>
-                    )}
-                  </div>
+                      )}
+                    </div>
 
-                  {/* Additional Info */}
-                  <div className="mt-3 pt-3 border-t border-gray-100">
-                    <p className="text-xs text-gray-500">
-                      Joined on {new Date(passenger.createdAt || Date.now()).toLocaleDateString()}
-                    </p>
+                    {/* Additional Info */}
+                    <div className="mt-3 pt-3 border-t border-gray-100">
+                      <p className="text-xs text-gray-500">
+                        Joined on {new Date(passenger.createdAt || Date.now()).toLocaleDateString()}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))}
+                )
+              })}
 
               {/* Contact All Button */}
               <div className="pt-4 border-t border-gray-200">
@@ -515,6 +870,254 @@ export default function TripCard({
         </div>
       </Modal>
 
+      {/* Group Booking Modal */}
+      <Modal
+        isOpen={isBookingModalOpen}
+        onClose={() => setIsBookingModalOpen(false)}
+        title="Book Seats"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {remainingSeats} seats left on {localTrip.from} → {localTrip.to}.
+          </p>
+          <SeatSelector
+            booking={booking}
+            onChange={setBooking}
+            maxSeats={remainingSeats}
+            pricePerPerson={localTrip.pricePerPerson}
+          />
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={() => handleJoin(booking)}
+              className="flex-1 bg-green-500 hover:bg-green-600"
+            >
+              Confirm Booking
+            </Button>
+            <Button
+              onClick={() => setIsBookingModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Waitlist Modal */}
+      <Modal
+        isOpen={isWaitlistModalOpen}
+        onClose={() => setIsWaitlistModalOpen(false)}
+        title="Join Waitlist"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {localTrip.waitlistLength
+              ? `${localTrip.waitlistLength} ${localTrip.waitlistLength === 1 ? 'person is' : 'people are'} ahead of you. `
+              : "You'll be first in line. "}
+            If seats free up on {localTrip.from} → {localTrip.to}, we&apos;ll hold them for you for a short time
+            so you can accept.
+          </p>
+          <SeatSelector
+            booking={booking}
+            onChange={setBooking}
+            maxSeats={localTrip.maxPassengers}
+            pricePerPerson={localTrip.pricePerPerson}
+          />
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={handleJoinWaitlist}
+              className="flex-1 bg-amber-500 hover:bg-amber-600"
+            >
+              Add Me to Waitlist
+            </Button>
+            <Button
+              onClick={() => setIsWaitlistModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Join Request Modal */}
+      <Modal
+        isOpen={isRequestModalOpen}
+        onClose={() => setIsRequestModalOpen(false)}
+        title="Request to Join"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {localTrip.driver?.name ?? 'The driver'} reviews every request for {localTrip.from} → {localTrip.to}.
+            You&apos;ll see the answer on your trips.
+          </p>
+          <SeatSelector
+            booking={booking}
+            onChange={setBooking}
+            maxSeats={remainingSeats}
+            pricePerPerson={localTrip.pricePerPerson}
+          />
+          <div>
+            <label htmlFor={`request-note-${localTrip.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Note to the driver (optional)
+            </label>
+            <textarea
+              id={`request-note-${localTrip.id}`}
+              value={requestNote}
+              onChange={(e) => setRequestNote(e.target.value)}
+              rows={3}
+              maxLength={300}
+              placeholder="Where you'll be waiting, how much luggage you have..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={handleRequest}
+              className="flex-1 bg-green-500 hover:bg-green-600"
+            >
+              Send Request
+            </Button>
+            <Button
+              onClick={() => setIsRequestModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Leave Trip Modal */}
+      <Modal
+        isOpen={isLeaveModalOpen}
+        onClose={() => setIsLeaveModalOpen(false)}
+        title="Leave Trip"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Your seat on {localTrip.from} → {localTrip.to} goes back to other riders and{' '}
+            {localTrip.driver?.name ?? 'the driver'} is told you&apos;re not coming.
+          </p>
+          {isLateCancellation(localTrip.departureTime) && (
+            <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                This trip leaves in less than {runtimeConfig.lateCancellationHours} hours, so the driver will see this
+                as a late cancellation.
+              </span>
+            </div>
+          )}
+          <div>
+            <label htmlFor={`leave-reason-${localTrip.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              id={`leave-reason-${localTrip.id}`}
+              value={leaveReason}
+              onChange={(e) => setLeaveReason(e.target.value as CancellationReason)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="" disabled>Choose a reason</option>
+              {(Object.keys(CANCELLATION_REASONS) as CancellationReason[]).map(reason => (
+                <option key={reason} value={reason}>{CANCELLATION_REASONS[reason]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`leave-note-${localTrip.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Message for the driver (optional)
+            </label>
+            <textarea
+              id={`leave-note-${localTrip.id}`}
+              value={leaveNote}
+              onChange={(e) => setLeaveNote(e.target.value)}
+              rows={2}
+              maxLength={300}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={handleLeave}
+              disabled={!leaveReason}
+              className="flex-1 bg-red-500 hover:bg-red-600"
+            >
+              Leave Trip
+            </Button>
+            <Button
+              onClick={() => setIsLeaveModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Stay on Trip
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Cancel Trip Modal */}
+      <Modal
+        isOpen={isCancelModalOpen}
+        onClose={() => setIsCancelModalOpen(false)}
+        title="Cancel Trip"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {localTrip.from} → {localTrip.to} stays in your trips as cancelled
+            {localTrip.currentPassengers > 0 && ', and every passenger is told why'}.
+          </p>
+          <div>
+            <label htmlFor={`cancel-reason-${localTrip.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              id={`cancel-reason-${localTrip.id}`}
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value as TripCancellationReason)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="" disabled>Choose a reason</option>
+              {(Object.keys(TRIP_CANCELLATION_REASONS) as TripCancellationReason[]).map(reason => (
+                <option key={reason} value={reason}>{TRIP_CANCELLATION_REASONS[reason]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`cancel-note-${localTrip.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Message for passengers (optional)
+            </label>
+            <textarea
+              id={`cancel-note-${localTrip.id}`}
+              value={cancelNote}
+              onChange={(e) => setCancelNote(e.target.value)}
+              rows={2}
+              maxLength={300}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex space-x-3 pt-2">
+            <Button
+              onClick={handleCancelTrip}
+              disabled={!cancelReason}
+              className="flex-1 bg-red-500 hover:bg-red-600"
+            >
+              Confirm Cancellation
+            </Button>
+            <Button
+              onClick={() => setIsCancelModalOpen(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Keep Trip
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Edit Modal */}
       <Modal
         isOpen={isEditModalOpen}
@@ -528,8 +1131,8 @@ export default function TripCard({
             </label>
             <input
               type="text"
-              value={editData.from_location}
-              onChange={(e) => setEditData({ ...editData, from_location: e.target.value })}
+              value={editData.from}
+              onChange={(e) => setEditData({ ...editData, from: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
@@ -540,8 +1143,8 @@ export default function TripCard({
             </label>
             <input
               type="text"
-              value={editData.to_location}
-              onChange={(e) => setEditData({ ...editData, to_location: e.target.value })}
+              value={editData.to}
+              onChange={(e) => setEditData({ ...editData, to: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
@@ -552,8 +1155,8 @@ export default function TripCard({
             </label>
             <input
               type="datetime-local"
-              value={editData.departure_time}
-              onChange={(e) => setEditData({ ...editData, departure_time: e.target.value })}
+              value={editData.departureTime}
+              onChange={(e) => setEditData({ ...editData, departureTime: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
@@ -567,8 +1170,8 @@ export default function TripCard({
                 type="number"
                 min="1"
                 max="8"
-                value={editData.max_passengers}
-                onChange={(e) => setEditData({ ...editData, max_passengers: parseInt(e.target.value) })}
+                value={editData.maxPassengers}
+                onChange={(e) => setEditData({ ...editData, maxPassengers: parseInt(e.target.value) })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -581,8 +1184,8 @@ export default function TripCard({
                 type="number"
                 min="0"
                 step="10"
-                value={editData.price_per_person}
-                onChange={(e) => setEditData({ ...editData, price_per_person: parseFloat(e.target.value) })}
+                value={editData.pricePerPerson}
+                onChange={(e) => setEditData({ ...editData, pricePerPerson: parseFloat(e.target.value) })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -633,7 +1236,8 @@ export default function TripCard({
             Are you sure you want to delete this trip?
           </h3>
           <p className="text-sm text-gray-500 mb-6">
-            This action cannot be undone. All passengers will be notified.
+            This action cannot be undone and removes the trip from your passengers&apos; history.
+            {localTrip.currentPassengers > 0 && ' To let them know why, cancel the trip instead.'}
           </p>
           <div className="flex space-x-3">
             <Button
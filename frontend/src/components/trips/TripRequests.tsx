@@ -0,0 +1,90 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Check, X } from 'lucide-react'
+import ErrorAlert from '@/components/common/ErrorAlert'
+import { VerifiedBadge } from '@/components/ui/VerifiedBadge'
+import { getTripRequests } from '@/lib/api'
+import { QUERY_KEYS } from '@/lib/queryCache'
+import { respondToRequestOptimistically } from '@/lib/tripMutations'
+import { useQuery } from '@/hooks/useQuery'
+import { useTripMutationPending } from '@/hooks/useTripMutationPending'
+import { Trip } from '@/types/trip'
+
+interface TripRequestsProps {
+  trip: Trip
+}
+
+// Pending join requests for the driver, on the trip card and the trip detail page
+export default function TripRequests({ trip }: TripRequestsProps) {
+  const { data: requests, isLoading, error, refetch } = useQuery(
+    QUERY_KEYS.tripRequests(trip.id),
+    signal => getTripRequests(trip.id, signal)
+  )
+  // Each answer changes the seat count the next one is checked against, so they go one at a time
+  const isResponding = useTripMutationPending(trip.id)
+  const remainingSeats = trip.maxPassengers - trip.currentPassengers - (trip.seatsOnHold ?? 0)
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading requests...</p>
+  }
+
+  if (error && !requests) {
+    return <ErrorAlert error={error} title="Couldn't load join requests" onRetry={refetch} />
+  }
+
+  if (!requests || requests.length === 0) {
+    return <p className="text-sm text-gray-500">No pending requests.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {requests.map(request => {
+        const name = request.passenger?.name ?? 'Passenger'
+        const seats = request.seats ?? 1
+        const fits = seats <= remainingSeats
+        return (
+          <li key={request.id} className="bg-gray-50 rounded-lg p-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  {name}
+                  {request.passenger?.isVerified && <VerifiedBadge />}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {seats} seat{seats === 1 ? '' : 's'} · ₹{seats * trip.pricePerPerson} · asked{' '}
+                  {formatDistanceToNow(new Date(request.joinedAt), { addSuffix: true })}
+                </p>
+                {request.companions && request.companions.length > 0 && (
+                  <p className="text-xs text-gray-500">With {request.companions.join(', ')}</p>
+                )}
+                {request.note && (
+                  <p className="mt-1 text-sm text-gray-700">&ldquo;{request.note}&rdquo;</p>
+                )}
+              </div>
+              <div className="flex space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => respondToRequestOptimistically(trip, request, 'confirmed')}
+                  disabled={!fits || isResponding}
+                  title={fits ? undefined : `Only ${Math.max(remainingSeats, 0)} seats left`}
+                  aria-label={`Accept ${name}`}
+                  className="p-2 rounded-full bg-green-100 text-green-700 hover:bg-green-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Check className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => respondToRequestOptimistically(trip, request, 'declined')}
+                  disabled={isResponding}
+                  aria-label={`Decline ${name}`}
+                  className="p-2 rounded-full bg-red-100 text-red-600 hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { CheckCircle, AlertCircle, Info, X } from 'lucide-react'
+import { dismissToast, getToasts, subscribeToToasts, Toast } from '@/lib/toast'
+
+const NO_TOASTS: Toast[] = []
+
+const VARIANT_STYLES = {
+  success: 'bg-green-50 border-green-200 text-green-800',
+  error: 'bg-red-50 border-red-200 text-red-800',
+  info: 'bg-white border-gray-200 text-gray-800'
+} as const
+
+const VARIANT_ICONS = {
+  success: CheckCircle,
+  error: AlertCircle,
+  info: Info
+} as const
+
+export function Toaster() {
+  const toasts = useSyncExternalStore(subscribeToToasts, getToasts, () => NO_TOASTS)
+
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-full max-w-sm" aria-live="polite">
+      {toasts.map(toast => {
+        const Icon = VARIANT_ICONS[toast.variant]
+        return (
+          <div
+            key={toast.id}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+            className={`flex items-start gap-3 rounded-lg border px-4 py-3 shadow-lg ${VARIANT_STYLES[toast.variant]}`}
+          >
+            <Icon className="h-5 w-5 flex-shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm">{toast.message}</p>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action?.onClick()
+                  dismissToast(toast.id)
+                }}
+                className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+              >
+                {toast.action.label}
+              </button>
+            )}
+            <button
+              onClick={() => dismissToast(toast.id)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
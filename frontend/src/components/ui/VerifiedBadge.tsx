@@ -0,0 +1,18 @@
+import { BadgeCheck } from 'lucide-react'
+
+interface VerifiedBadgeProps {
+  label?: string
+  className?: string
+}
+
+export function VerifiedBadge({ label = 'Verified', className = '' }: VerifiedBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700 ${className}`}
+      title="Phone number verified"
+    >
+      <BadgeCheck className="h-3 w-3" />
+      {label}
+    </span>
+  )
+}
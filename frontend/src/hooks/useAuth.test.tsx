@@ -0,0 +1,169 @@
+import { act, screen, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import SessionExpiryModal from '@/components/auth/SessionExpiryModal'
+import { useAuth } from '@/hooks/useAuth'
+import { getStoredRefreshToken, getStoredToken } from '@/lib/auth'
+import { SESSION } from '@/lib/constants'
+import { mockRouter, setMockUrl } from '@/test/navigation'
+import { mockApi, renderWithProviders, signInAs } from '@/test/render'
+
+function AuthProbe() {
+  const { user, isLoading, logout } = useAuth()
+  return (
+    <div>
+      <p>{isLoading ? 'Checking session' : user ? `Signed in as ${user.name}` : 'Signed out'}</p>
+      <button onClick={logout}>Log out</button>
+    </div>
+  )
+}
+
+// Renders the way the dashboard does: chrome from whichever user is known, details from the full one
+function AccountProbe() {
+  const { user, provisionalUser } = useAuth()
+  const name = (user ?? provisionalUser)?.name
+  return (
+    <div>
+      {name && <p>Hello {name}</p>}
+      <p>{user ? `Phone ${user.phone}, ${user.isVerified ? 'verified' : 'unverified'}` : 'Loading account'}</p>
+    </div>
+  )
+}
+
+describe('AuthProvider', () => {
+  it('starts signed out without a stored token', async () => {
+    renderWithProviders(<AuthProbe />)
+
+    expect(await screen.findByText('Signed out')).toBeInTheDocument()
+  })
+
+  it('restores the session from a stored token', async () => {
+    signInAs('asha@example.com')
+    renderWithProviders(<AuthProbe />)
+
+    expect(await screen.findByText('Signed in as Asha Driver')).toBeInTheDocument()
+  })
+
+  it('keeps the token claims provisional until the full user arrives', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    mockApi().setScenario('cold-start')
+    signInAs('asha@example.com')
+    renderWithProviders(<AccountProbe />)
+
+    expect(await screen.findByText('Hello Asha Driver')).toBeInTheDocument()
+    expect(screen.getByText('Loading account')).toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(8000)
+    })
+
+    expect(await screen.findByText('Phone +919800000001, verified')).toBeInTheDocument()
+  })
+
+  it('shows the last loaded user while the server cannot be reached', async () => {
+    signInAs('asha@example.com')
+    const { unmount } = renderWithProviders(<AccountProbe />)
+    expect(await screen.findByText('Phone +919800000001, verified')).toBeInTheDocument()
+    unmount()
+
+    mockApi().setScenario('offline')
+    renderWithProviders(<AccountProbe />)
+
+    expect(screen.getByText('Phone +919800000001, verified')).toBeInTheDocument()
+  })
+
+  it('exchanges an expired access token for a new one on load', async () => {
+    signInAs('rohan@example.com', { expiresInSeconds: -60 })
+    const expiredToken = getStoredToken()
+    renderWithProviders(<AuthProbe />)
+
+    expect(await screen.findByText('Signed in as Rohan Rider')).toBeInTheDocument()
+    expect(getStoredToken()).not.toBe(expiredToken)
+    expect(getStoredRefreshToken()).not.toBe('mock-refresh-2-test')
+  })
+
+  it('keeps an expired session while the refresh cannot reach the server', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('rohan@example.com', { expiresInSeconds: -60 })
+    const expiredToken = getStoredToken()
+    mockApi().setScenario('offline')
+    renderWithProviders(<AccountProbe />)
+
+    expect(await screen.findByText('Hello Rohan Rider')).toBeInTheDocument()
+    expect(getStoredToken()).toBe(expiredToken)
+    expect(getStoredRefreshToken()).not.toBeNull()
+
+    mockApi().setScenario('default')
+    act(() => {
+      vi.advanceTimersByTime(SESSION.REFRESH_RETRY_MS)
+    })
+
+    await waitFor(() => expect(getStoredToken()).not.toBe(expiredToken))
+  })
+
+  it('clears an expired session that cannot be refreshed', async () => {
+    signInAs('rohan@example.com', { expiresInSeconds: -60, withRefreshToken: false })
+    renderWithProviders(<AuthProbe />)
+
+    expect(await screen.findByText('Signed out')).toBeInTheDocument()
+    expect(getStoredToken()).toBeNull()
+  })
+
+  it('signs out when the server rejects both the token and the refresh', async () => {
+    signInAs('asha@example.com')
+    mockApi().setScenario('expired-token')
+    renderWithProviders(<AuthProbe />)
+
+    await waitFor(() => expect(getStoredToken()).toBeNull())
+    expect(await screen.findByText('Signed out')).toBeInTheDocument()
+    expect(getStoredRefreshToken()).toBeNull()
+  })
+
+  it('refreshes the token shortly before it expires', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com', { expiresInSeconds: 10 * 60 })
+    const firstToken = getStoredToken()
+    renderWithProviders(<AuthProbe />)
+    expect(await screen.findByText('Signed in as Asha Driver')).toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(10 * 60 * 1000 - SESSION.REFRESH_LEAD_TIME_MS)
+    })
+
+    await waitFor(() => expect(getStoredToken()).not.toBe(firstToken))
+    expect(screen.getByText('Signed in as Asha Driver')).toBeInTheDocument()
+  })
+
+  it('logs out by clearing both tokens and going to the login page', async () => {
+    signInAs('asha@example.com')
+    const { user } = renderWithProviders(<AuthProbe />)
+    await screen.findByText('Signed in as Asha Driver')
+
+    await user.click(screen.getByRole('button', { name: 'Log out' }))
+
+    expect(screen.getByText('Signed out')).toBeInTheDocument()
+    expect(getStoredToken()).toBeNull()
+    expect(getStoredRefreshToken()).toBeNull()
+    expect(mockRouter.push).toHaveBeenCalledWith('/login')
+  })
+})
+
+describe('SessionExpiryModal', () => {
+  it('sends the user to sign in again when the session cannot be refreshed', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    setMockUrl('/dashboard/trips')
+    signInAs('asha@example.com', { expiresInSeconds: 10 * 60, withRefreshToken: false })
+    const { user } = renderWithProviders(<><AuthProbe /><SessionExpiryModal /></>)
+    expect(await screen.findByText('Signed in as Asha Driver')).toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(10 * 60 * 1000 - SESSION.WARNING_LEAD_TIME_MS)
+    })
+
+    expect(await screen.findByText('Your session is about to expire')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Stay Signed In' })).not.toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Sign In Again' }))
+
+    expect(getStoredToken()).toBeNull()
+    expect(mockRouter.push).toHaveBeenCalledWith('/login?next=%2Fdashboard%2Ftrips')
+  })
+})
@@ -1,19 +1,64 @@
 'use client';
 
-import { useState, useEffect, createContext, useContext } from 'react';
+import { useState, useEffect, useCallback, useRef, createContext, useContext } from 'react';
 import { useRouter } from 'next/navigation';
-import { login as apiLogin, register as apiRegister, getCurrentUser } from '@/lib/api';
-import { User } from '@/types/user';
-import { TOKEN_KEY } from '@/lib/auth';
+import {
+  login as apiLogin,
+  register as apiRegister,
+  getCurrentUser,
+  isRefreshRejected,
+  refreshAccessToken,
+  revokeSession as apiRevokeSession,
+  logoutAllSessions,
+} from '@/lib/api';
+import { ApiError, toApiError } from '@/lib/errors';
+import { ProvisionalUser, User } from '@/types/user';
+import {
+  TOKEN_KEY,
+  broadcastAuthEvent,
+  buildLoginUrl,
+  subscribeToAuthEvents,
+  storeAuthTokens,
+  clearAuthTokens,
+  getStoredToken,
+  getStoredRefreshToken,
+  getStoredUser,
+  setStoredUser,
+  getTokenExpiry,
+  getUserFromToken,
+  isTokenExpired,
+  subscribeToTokenChanges,
+  syncAuthCookie,
+} from '@/lib/auth';
+import { SESSION } from '@/lib/constants';
+import { clearQueryCache } from '@/lib/queryCache';
+import { clearOutbox } from '@/lib/outbox';
+import { clearOfflineApiCache } from '@/lib/serviceWorker';
+
+// setTimeout overflows for delays longer than ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 
 interface AuthContextType {
   user: User | null;
+  // Decoded from the stored token while /auth/me is loading; null once the session ends
+  provisionalUser: ProvisionalUser | null;
+  // Why /auth/me failed while the session itself is still valid, e.g. the backend is down
+  authError: ApiError | null;
+  reloadUser: () => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
-  register: (userData: RegisterData) => Promise<void>;
+  register: (userData: RegisterData) => Promise<User>;
   logout: () => void;
+  // Sign out and come back to returnTo after signing in again
+  reauthenticate: (returnTo: string) => void;
+  revokeSession: (sessionId: string, isCurrent?: boolean) => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
+  refreshToken: () => Promise<void>;
   isLoading: boolean;
    setUser: (user: User | null) => void;
+  sessionExpiresAt: number | null;
+  isSessionExpiring: boolean;
+  dismissSessionWarning: () => void;
 }
 
 interface RegisterData {
@@ -26,27 +71,187 @@ interface RegisterData {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUserState] = useState<User | null>(null);
+  const [provisionalUser, setProvisionalUser] = useState<ProvisionalUser | null>(null);
+  const [authError, setAuthError] = useState<ApiError | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [token, setToken] = useState<string | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [isSessionExpiring, setIsSessionExpiring] = useState(false);
   const router = useRouter();
+  const previousUserId = useRef<number | null>(null);
 
+  // Cached trips and queued offline writes belong to whoever made them, so drop them when the user changes
   useEffect(() => {
-    checkAuth();
-  }, []);
+    const userId = user?.id ?? null;
+    if (previousUserId.current !== null && previousUserId.current !== userId) {
+      clearQueryCache();
+      clearOutbox();
+      clearOfflineApiCache();
+    }
+    previousUserId.current = userId;
+  }, [user?.id]);
 
-  const checkAuth = async () => {
+  const reloadUser = useCallback(async () => {
+    setIsLoading(true);
+    setAuthError(null);
     try {
-      const token = localStorage.getItem(TOKEN_KEY);
-      if (token) {
-        const userData = await getCurrentUser();
-        setUser(userData);
-      }
+      const userData = await getCurrentUser();
+      setUserState(userData);
     } catch (error) {
-      localStorage.removeItem(TOKEN_KEY);
+      // The api interceptor clears the tokens once the session cannot be recovered
+      if (!getStoredToken()) {
+        setUserState(null);
+        setProvisionalUser(null);
+      } else {
+        setAuthError(toApiError(error));
+      }
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  const checkAuth = useCallback(async () => {
+    const storedToken = getStoredToken();
+    if (!storedToken) {
+      setIsLoading(false);
+      return;
+    }
+    syncAuthCookie();
+
+    // Lets the dashboard render right away instead of waiting on a cold backend:
+    // the last full user if it belongs to this token, otherwise the token's claims
+    const tokenUser = getUserFromToken(storedToken);
+    const storedUser = getStoredUser();
+    if (tokenUser && storedUser?.id === tokenUser.id) {
+      setUserState(storedUser);
+    } else {
+      setProvisionalUser(tokenUser);
+    }
+
+    if (isTokenExpired(storedToken)) {
+      try {
+        await refreshAccessToken();
+      } catch (error) {
+        if (isRefreshRejected(error)) {
+          clearAuthTokens();
+          setUserState(null);
+          setProvisionalUser(null);
+        } else {
+          // Offline or a cold backend: keep the session and let the expiry timer try again
+          setAuthError(toApiError(error));
+        }
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    await reloadUser();
+  }, [reloadUser]);
+
+  useEffect(() => {
+    setToken(getStoredToken());
+    const unsubscribe = subscribeToTokenChanges(setToken);
+    checkAuth();
+    return unsubscribe;
+  }, [checkAuth]);
+
+  // Keep every open tab in sync with logins, logouts, refreshes and profile edits
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means localStorage was cleared
+      if (event.key !== TOKEN_KEY && event.key !== null) return;
+
+      const storedToken = getStoredToken();
+      setToken(storedToken);
+      if (!storedToken) {
+        setUserState(null);
+      }
+    };
+
+    const unsubscribe = subscribeToAuthEvents((message) => {
+      switch (message.type) {
+        case 'login':
+        case 'user-updated':
+          setUserState(message.user);
+          break;
+        case 'logout':
+          setUserState(null);
+          break;
+      }
+    });
+
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (user) setStoredUser(user);
+  }, [user]);
+
+  // The token claims only stand in for the user while their session lasts
+  useEffect(() => {
+    if (!token && !getStoredToken()) {
+      setProvisionalUser(null);
+    }
+  }, [token]);
+
+  // Refresh or warn shortly before the access token expires
+  useEffect(() => {
+    setIsSessionExpiring(false);
+
+    const expiresAt = token ? getTokenExpiry(token) : null;
+    setSessionExpiresAt(expiresAt);
+    if (!expiresAt) return;
+
+    let isActive = true;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const schedule = (callback: () => void, at: number) => {
+      const delay = Math.max(0, at - Date.now());
+      if (isActive && delay <= MAX_TIMER_DELAY_MS) {
+        timers.push(setTimeout(callback, delay));
+      }
+    };
+
+
+    const expireSession = () => {
+      clearAuthTokens();
+      setUserState(null);
+      router.push('/login');
+    };
+
+    // A refresh that never reached the server is tried again rather than ending the session
+    const refreshOrRetry = () => {
+      refreshAccessToken().catch((error) => {
+        if (isRefreshRejected(error)) {
+          expireSession();
+        } else {
+          schedule(refreshOrRetry, Date.now() + SESSION.REFRESH_RETRY_MS);
+        }
+      });
+    };
+
+    if (getStoredRefreshToken()) {
+      schedule(() => {
+        refreshAccessToken().catch((error) => {
+          if (isRefreshRejected(error)) setIsSessionExpiring(true);
+        });
+      }, expiresAt - SESSION.REFRESH_LEAD_TIME_MS);
+      // A token that is already expired on load is still being refreshed; wait for that instead of logging out
+      schedule(refreshOrRetry, expiresAt);
+    } else {
+      schedule(() => setIsSessionExpiring(true), expiresAt - SESSION.WARNING_LEAD_TIME_MS);
+      schedule(expireSession, expiresAt);
+    }
+
+    return () => {
+      isActive = false;
+      timers.forEach(clearTimeout);
+    };
+  }, [token, router]);
 
   // const login = async (email: string, password: string) => {
   //   const response = await apiLogin(email, password);
@@ -64,10 +269,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       throw new Error('Invalid response from server');
     }
     
-    localStorage.setItem(TOKEN_KEY, response.token);
+    storeAuthTokens(response.token, response.refreshToken);
     console.log('Token stored:', response.token); // Debug log
     
-    setUser(response.user);
+    setUserState(response.user);
+    broadcastAuthEvent({ type: 'login', user: response.user });
     console.log('User state updated:', response.user); // Debug log
     
     // ✅ Don't return the response - function should return void
@@ -80,18 +286,75 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const register = async (userData: RegisterData) => {
     const response = await apiRegister(userData);
-    localStorage.setItem(TOKEN_KEY, response.token);
-    setUser(response.user);
+    storeAuthTokens(response.token, response.refreshToken);
+    setUserState(response.user);
+    broadcastAuthEvent({ type: 'login', user: response.user });
+    return response.user;
   };
 
   const logout = () => {
-    localStorage.removeItem(TOKEN_KEY);
-    setUser(null);
+    clearAuthTokens();
+    setUserState(null);
+    broadcastAuthEvent({ type: 'logout' });
     router.push('/login');
   };
 
+  const reauthenticate = (returnTo: string) => {
+    clearAuthTokens();
+    setUserState(null);
+    broadcastAuthEvent({ type: 'logout' });
+    router.push(buildLoginUrl(returnTo));
+  };
+
+  // Revoking the session this tab is using is the same as logging out
+  const revokeSession = async (sessionId: string, isCurrent = false) => {
+    await apiRevokeSession(sessionId);
+    if (isCurrent) {
+      logout();
+    }
+  };
+
+  const logoutEverywhere = async () => {
+    await logoutAllSessions();
+    logout();
+  };
+
+  // Profile edits made through the context are shared with other tabs
+  const setUser = (nextUser: User | null) => {
+    setUserState(nextUser);
+    broadcastAuthEvent(nextUser ? { type: 'user-updated', user: nextUser } : { type: 'logout' });
+  };
+
+  // Rejects when the refresh fails; callers decide whether that ends the session
+  const refreshToken = async () => {
+    await refreshAccessToken();
+  };
+
+  const dismissSessionWarning = () => {
+    setIsSessionExpiring(false);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading,setUser }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        provisionalUser,
+        authError,
+        reloadUser,
+        login,
+        register,
+        logout,
+        reauthenticate,
+        revokeSession,
+        logoutEverywhere,
+        refreshToken,
+        isLoading,
+        setUser,
+        sessionExpiresAt,
+        isSessionExpiring,
+        dismissSessionWarning,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,23 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+
+// Hands out an AbortSignal per request and aborts the previous one, so only the
+// most recent response for a given piece of state is ever applied. Everything
+// still in flight is aborted on unmount.
+export function useLatestRequest() {
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  const nextSignal = useCallback((): AbortSignal => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    return controller.signal
+  }, [])
+
+  return nextSignal
+}
@@ -0,0 +1,10 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { getOutboxState, OutboxState, subscribeToOutbox } from '@/lib/outbox'
+
+const EMPTY_OUTBOX: OutboxState = { entries: [], conflicts: [], isReplaying: false }
+
+export function useOutbox(): OutboxState {
+  return useSyncExternalStore(subscribeToOutbox, getOutboxState, () => EMPTY_OUTBOX)
+}
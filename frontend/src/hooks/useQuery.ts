@@ -0,0 +1,49 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+import {
+  QueryFetcher,
+  QueryKey,
+  QueryState,
+  fetchQuery,
+  getQueryState,
+  subscribeToQuery
+} from '@/lib/queryCache'
+
+interface UseQueryOptions {
+  staleTimeMs?: number
+  // Skip fetching until the inputs are ready, e.g. a route param
+  enabled?: boolean
+}
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false }
+
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, { staleTimeMs, enabled = true }: UseQueryOptions = {}) {
+  // Keep the latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = useCallback((listener: () => void) => subscribeToQuery(key, listener), [key])
+  const getSnapshot = useCallback(() => getQueryState<T>(key), [key])
+  const state = useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_STATE as QueryState<T>)
+
+  useEffect(() => {
+    if (!enabled) return
+    // Errors are stored on the cache entry and read from state below
+    fetchQuery(key, signal => fetcherRef.current(signal), { staleTimeMs }).catch(() => undefined)
+  }, [key, staleTimeMs, enabled])
+
+  const refetch = useCallback(
+    () => fetchQuery(key, signal => fetcherRef.current(signal), { force: true, staleTimeMs }).catch(() => undefined),
+    [key, staleTimeMs]
+  )
+
+  return {
+    data: state.data,
+    error: state.error ?? null,
+    // True only until the first result arrives; background refreshes use isFetching
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch
+  }
+}
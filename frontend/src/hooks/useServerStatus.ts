@@ -0,0 +1,24 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { getServerStatus, subscribeToServerStatus } from '@/lib/serverStatus'
+
+export function useServerStatus() {
+  const state = useSyncExternalStore(subscribeToServerStatus, getServerStatus, getServerStatus)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick once a second while waking so callers can show how long we've been waiting
+  useEffect(() => {
+    if (state.status !== 'waking') return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [state.status])
+
+  return {
+    status: state.status,
+    isWaking: state.status === 'waking',
+    isUnreachable: state.status === 'unreachable',
+    elapsedSeconds: state.status === 'waking' ? Math.max(0, Math.floor((now - state.since) / 1000)) : 0
+  }
+}
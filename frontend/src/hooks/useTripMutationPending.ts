@@ -0,0 +1,12 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { isTripMutationPending, subscribeToPendingTrips } from '@/lib/tripMutations'
+
+export function useTripMutationPending(tripId: number): boolean {
+  return useSyncExternalStore(
+    subscribeToPendingTrips,
+    () => isTripMutationPending(tripId),
+    () => false
+  )
+}
@@ -0,0 +1,29 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { TRIP_LIFECYCLE } from '@/lib/constants'
+import { canStartTrip, getTripPhase } from '@/lib/tripStatus'
+import { Trip } from '@/types/trip'
+
+// Longer timeouts overflow and fire straight away
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+// The trip's phase, re-rendered when the start window opens and again when it departs
+export function useTripPhase(trip: Pick<Trip, 'status' | 'departureTime'>) {
+  const [tick, setTick] = useState(0)
+  const departsAt = new Date(trip.departureTime).getTime()
+
+  useEffect(() => {
+    if (trip.status !== 'active') return
+    const now = Date.now()
+    const next = [departsAt - TRIP_LIFECYCLE.START_WINDOW_MS, departsAt].find(at => at > now)
+    if (next === undefined) return
+    const timer = setTimeout(() => setTick(count => count + 1), Math.min(next - now, MAX_TIMEOUT_MS))
+    return () => clearTimeout(timer)
+  }, [trip.status, departsAt, tick])
+
+  return {
+    phase: getTripPhase(trip),
+    canStart: canStartTrip(trip)
+  }
+}
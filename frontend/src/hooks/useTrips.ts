@@ -1,33 +1,28 @@
 // src/hooks/useTrips.ts
 
-import { useState, useEffect } from 'react'
+import { useCallback } from 'react'
 import { Trip } from '@/types/trip'
 import { getTrips } from '@/lib/api'
+import { QUERY_KEYS, setQueryData } from '@/lib/queryCache'
+import { useQuery } from '@/hooks/useQuery'
 
+// Backed by the shared query cache, so the dashboard, My Trips and Find Rides
+// all read the same list instead of fetching it separately
 export function useTrips() {
-  const [trips, setTrips] = useState<Trip[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string>('')
+  const { data, isLoading, isFetching, error, refetch } = useQuery(QUERY_KEYS.trips(), getTrips)
 
-  useEffect(() => {
-    const fetchTrips = async () => {
-      try {
-        const tripsData = await getTrips()
-        setTrips(tripsData)
-      } catch (err: any) {
-        setError(err.message)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchTrips()
+  const setTrips = useCallback((updater: Trip[] | ((previous: Trip[]) => Trip[])) => {
+    setQueryData<Trip[]>(QUERY_KEYS.trips(), previous =>
+      typeof updater === 'function' ? updater(previous ?? []) : updater
+    )
   }, [])
 
   return {
-    trips,
+    trips: Array.isArray(data) ? data : [],
     isLoading,
+    isFetching,
     error,
     setTrips,
+    refetch,
   }
 }
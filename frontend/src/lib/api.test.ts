@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { createTrip, getTrip, updateTrip } from '@/lib/api'
+import { ApiError } from '@/lib/errors'
+import { mockApi, signInAs } from '@/test/render'
+
+async function apiErrorFrom(request: Promise<unknown>): Promise<ApiError> {
+  const error = await request.then(() => undefined, (error: unknown) => error)
+  if (!(error instanceof ApiError)) throw new Error(`Expected an ApiError, got ${String(error)}`)
+  return error
+}
+
+describe('trip API boundary', () => {
+  it('returns camelCase trips', async () => {
+    signInAs('asha@example.com')
+
+    await expect(getTrip(1)).resolves.toMatchObject({
+      id: 1,
+      driverId: 1,
+      from: 'Pune',
+      to: 'Mumbai Airport',
+      pricePerPerson: 450,
+      userRole: 'driver'
+    })
+  })
+
+  it('sends camelCase changes in the shape the backend expects', async () => {
+    signInAs('asha@example.com')
+
+    const updated = await updateTrip(2, { pricePerPerson: 350, description: 'Via the expressway' })
+
+    expect(updated).toMatchObject({ pricePerPerson: 350, description: 'Via the expressway' })
+    expect(mockApi().db.trips.find(trip => trip.id === 2)).toMatchObject({ pricePerPerson: 350 })
+  })
+
+  it('reports validation errors under the app field names', async () => {
+    signInAs('asha@example.com')
+
+    const error = await apiErrorFrom(createTrip({
+      from: 'Pune',
+      to: 'Goa',
+      departureTime: new Date(Date.now() - 60 * 1000).toISOString(),
+      maxPassengers: 20,
+      pricePerPerson: 400
+    }))
+
+    expect(error.kind).toBe('validation')
+    expect(Object.keys(error.fieldErrors).sort()).toEqual(['departureTime', 'maxPassengers'])
+  })
+
+  it('turns a malformed response into an invalid-response error', async () => {
+    signInAs('asha@example.com')
+    Object.assign(mockApi().db.trips[0], { pricePerPerson: 'free' })
+
+    const error = await apiErrorFrom(getTrip(1))
+
+    expect(error.kind).toBe('invalid-response')
+    expect(error.code).toBe('INVALID_RESPONSE')
+    expect(error.recoveryAction).toBe('none')
+  })
+})
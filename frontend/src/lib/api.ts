@@ -1,30 +1,190 @@
-import axios, { AxiosResponse } from 'axios';
-import { User } from '@/types/user';
-import { TOKEN_KEY } from '@/lib/auth';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  User,
+  DeleteAccountData,
+  DeleteAccountResponse,
+  PhoneOtpResponse,
+  UserActivity,
+  UserSearchCriteria,
+  UserSession,
+  UserWithRole,
+  UsersListResponse,
+} from '@/types/user';
+import { RefreshTokenResponse, ResetPasswordData } from '@/types/auth';
+import {
+  CancelTripData,
+  CreateTripData,
+  JoinTripData,
+  LeaveTripData,
+  LeaveTripResult,
+  SearchTripsData,
+  Trip,
+  TripMatch,
+  UpdateTripData,
+  WaitlistEntry
+} from '@/types/trip';
+import {
+  TOKEN_KEY,
+  getStoredRefreshToken,
+  storeAuthTokens,
+  clearAuthTokens,
+  buildLoginUrl,
+} from '@/lib/auth';
+import { API_ENDPOINTS, MESSAGES, PAGINATION } from '@/lib/constants';
+import { runtimeConfig } from '@/lib/config';
+import { ApiError, renameFieldErrors, toApiError } from '@/lib/errors';
+import {
+  parseTrip,
+  parseTripMatch,
+  parseTripMatches,
+  parseTrips,
+  parseWaitlist,
+  toSearchPayload,
+  toTripPayload,
+  TRIP_FIELD_NAMES
+} from '@/lib/schema';
+import { getBackoffDelay, isRetryableError, shouldRetry, sleep } from '@/lib/retry';
+import { markServerReady, markServerUnreachable, trackPendingRequest } from '@/lib/serverStatus';
+import { invalidateTripQueries } from '@/lib/queryCache';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Opt a non-idempotent request (e.g. a search POST) into automatic retries
+    retryable?: boolean;
+  }
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _retryCount?: number;
+  _stopColdStartTimer?: (abandoned?: boolean) => void;
+}
 
 // Create axios instance with base configuration
 const api = axios.create({
-  baseURL: 'https://ridesharebackend-1.onrender.com',
-  timeout: 60000,
+  baseURL: runtimeConfig.apiBaseUrl,
+  timeout: runtimeConfig.apiTimeoutMs,
   headers: {
     'Content-Type': 'application/json',
   },
   withCredentials: true,
 });
 
+// NEXT_PUBLIC_APP_ENV=mock answers every request from src/mocks instead of the network.
+// Loaded on first use so the mock never ends up in a production bundle.
+if (runtimeConfig.environment === 'mock') {
+  const mockAdapter: AxiosAdapter = async (config) => {
+    const { getAppMockApi } = await import('@/mocks');
+    return getAppMockApi().adapter(config);
+  };
+  api.defaults.adapter = mockAdapter;
+  // The token refresh goes through the global axios instance
+  axios.defaults.adapter = mockAdapter;
+}
+
 api.interceptors.request.use(
-  (config) => {
-    // Ensure we're always using the correct base URL
-    console.log('API Request URL:', config.url);
+  (config: RetryableRequestConfig) => {
+    if (runtimeConfig.features.debugLogging) {
+      console.log('API Request URL:', `${config.baseURL}${config.url}`);
+    }
+    config._stopColdStartTimer = trackPendingRequest(runtimeConfig.coldStartThresholdMs);
     return config;
   },
   (error) => {
     return Promise.reject(error);
   }
 );
+
+// Retry idempotent requests that failed because the backend was asleep or unreachable
+api.interceptors.response.use(
+  (response) => {
+    (response.config as RetryableRequestConfig)._stopColdStartTimer?.();
+    markServerReady();
+    return response;
+  },
+  async (error: AxiosError) => {
+    const config = error.config as RetryableRequestConfig | undefined;
+    config?._stopColdStartTimer?.(axios.isCancel(error));
+
+    if (axios.isCancel(error) || !config) {
+      return Promise.reject(error);
+    }
+
+    const apiError = toApiError(error);
+    const attempt = config._retryCount ?? 0;
+
+    if (shouldRetry(apiError, { method: config.method, attempt, retryable: config.retryable }, runtimeConfig.retry)) {
+      config._retryCount = attempt + 1;
+      await sleep(getBackoffDelay(attempt, runtimeConfig.retry), config.signal as AbortSignal | undefined);
+      return api(config);
+    }
+
+    if (isRetryableError(apiError)) {
+      markServerUnreachable();
+    } else {
+      markServerReady();
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Shared refresh request so concurrent 401s only trigger a single refresh
+let refreshPromise: Promise<string> | null = null;
+
+// Only a refresh the server turned down ends the session. A dropped connection or a
+// sleeping backend says nothing about the refresh token, so it is kept for another try.
+export const isRefreshRejected = (error: unknown): boolean =>
+  error instanceof ApiError && error.kind === 'unauthorized';
+
+// Exchange the stored refresh token for a new access token. Rejects with an ApiError.
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getStoredRefreshToken();
+      if (!refreshToken) {
+        throw new ApiError({ kind: 'unauthorized', status: 401, message: MESSAGES.ERROR.UNAUTHORIZED });
+      }
+
+      try {
+        // Bypass the api instance so the refresh call never hits our own interceptors
+        const response: AxiosResponse<RefreshTokenResponse> = await axios.post(
+          `${api.defaults.baseURL}${API_ENDPOINTS.AUTH.REFRESH}`,
+          { refreshToken },
+          { timeout: api.defaults.timeout, withCredentials: true }
+        );
+
+        storeAuthTokens(response.data.token, response.data.refreshToken);
+        return response.data.token;
+      } catch (error) {
+        throw toApiError(error, 'Failed to refresh your session');
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const handleSessionExpired = () => {
+  clearAuthTokens();
+  if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+    window.location.href = buildLoginUrl(window.location.pathname + window.location.search);
+  }
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    // Hold new requests until an in-flight refresh settles so they use the new token.
+    // If it could not get through, neither will they, so they fail with its error.
+    if (refreshPromise) {
+      try {
+        await refreshPromise;
+      } catch (error) {
+        if (!isRefreshRejected(error)) throw error;
+      }
+    }
+
     const token = localStorage.getItem(TOKEN_KEY);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
@@ -36,22 +196,66 @@ api.interceptors.request.use(
   }
 );
 
+const AUTH_ENDPOINTS_WITHOUT_REFRESH: string[] = [
+  API_ENDPOINTS.AUTH.LOGIN,
+  API_ENDPOINTS.AUTH.REGISTER,
+  API_ENDPOINTS.AUTH.REFRESH,
+  API_ENDPOINTS.AUTH.FORGOT_PASSWORD,
+  API_ENDPOINTS.AUTH.RESET_PASSWORD,
+  API_ENDPOINTS.AUTH.VERIFY_EMAIL,
+];
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem(TOKEN_KEY);
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (error.response?.status !== 401 || !originalRequest) {
+      return Promise.reject(error);
+    }
+
+    // Bad credentials on login/register are not an expired session
+    if (AUTH_ENDPOINTS_WITHOUT_REFRESH.includes(originalRequest.url || '')) {
+      return Promise.reject(error);
+    }
+
+    // The request already failed once with a fresh token
+    if (originalRequest._retry) {
+      handleSessionExpired();
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      if (isRefreshRejected(refreshError)) {
+        handleSessionExpired();
+        return Promise.reject(error);
+      }
+      // Keep the tokens; the next request that gets a 401 tries the refresh again
+      return Promise.reject(refreshError);
     }
-    return Promise.reject(error);
   }
 );
 
+// Fire-and-forget request that wakes a sleeping backend before the user needs it
+export const warmUpServer = async (): Promise<void> => {
+  try {
+    await api.get(API_ENDPOINTS.HEALTH);
+  } catch {
+    // Failures are already reflected in the server status
+  }
+};
+
 // Authentication API functions
 export interface LoginResponse {
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
@@ -61,7 +265,7 @@ export interface RegisterData {
   password: string;
   phone: string;
 }
-export const login = async (email: string, password: string): Promise<LoginResponse> => {
+export const login = async (email: string, password: string, signal?: AbortSignal): Promise<LoginResponse> => {
   try {
     console.log('🚀 API login called with baseURL:', api.defaults.baseURL);
     console.log('📧 Email:', email);
@@ -69,7 +273,7 @@ export const login = async (email: string, password: string): Promise<LoginRespo
     const response: AxiosResponse<LoginResponse> = await api.post('/auth/login', {
       email,
       password,
-    });
+    }, { signal });
     
     console.log('✅ Login API response:', response.data);
     return response.data;
@@ -78,80 +282,126 @@ export const login = async (email: string, password: string): Promise<LoginRespo
     console.error('❌ Error response:', error.response?.data);
     console.error('❌ Error status:', error.response?.status);
     
-    throw new Error(error.response?.data?.error || 'Login failed');
+    throw toApiError(error, 'Login failed');
   }
 };
 
 
-export const register = async (userData: RegisterData): Promise<LoginResponse> => {
+export const register = async (userData: RegisterData, signal?: AbortSignal): Promise<LoginResponse> => {
   try {
-    const response: AxiosResponse<LoginResponse> = await api.post('/auth/register', userData);
+    const response: AxiosResponse<LoginResponse> = await api.post('/auth/register', userData, { signal });
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Registration failed');
+  } catch (error) {
+    throw toApiError(error, 'Registration failed');
   }
 };
 
-export const getCurrentUser = async (): Promise<User> => {
+export const getCurrentUser = async (signal?: AbortSignal): Promise<User> => {
   try {
-    const response: AxiosResponse<User> = await api.get('/auth/me');
+    const response: AxiosResponse<User> = await api.get('/auth/me', { signal });
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to get user data');
-  }
-};
-
-// Trip API functions
-export interface Trip {
-  id: number;
-  driverId: number;
-  from: string;
-  to: string;
-  departureTime: string;
-  maxPassengers: number;
-  currentPassengers: number;
-  pricePerPerson: number;
-  description: string;
-  status: 'active' | 'completed' | 'cancelled';
-  createdAt: string;
-  updatedAt: string;
-  driver?: User;
-  passengers?: User[];
-}
+  } catch (error) {
+    throw toApiError(error, 'Failed to get user data');
+  }
+};
 
-export interface CreateTripData {
-  from: string;
-  to: string;
-  departureTime: string;
-  maxPassengers: number;
-  pricePerPerson: number;
-  description?: string;
-}
+export const requestPasswordReset = async (email: string, signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.post(
+      API_ENDPOINTS.AUTH.FORGOT_PASSWORD,
+      { email },
+      { signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to request password reset');
+  }
+};
 
-export interface SearchTripsData {
-  from?: string;
-  to?: string;
-  departureDate?: string;
-  maxPrice?: number;
-}
+export const resetPassword = async (resetData: ResetPasswordData, signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.post(
+      API_ENDPOINTS.AUTH.RESET_PASSWORD,
+      resetData,
+      { signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to reset password');
+  }
+};
 
-export const createTrip = async (tripData: CreateTripData): Promise<Trip> => {
+export const verifyEmail = async (token: string, signal?: AbortSignal): Promise<User> => {
   try {
-    const response: AxiosResponse<Trip> = await api.post('/trips', tripData);
+    const response: AxiosResponse<User> = await api.post(API_ENDPOINTS.AUTH.VERIFY_EMAIL, { token }, { signal });
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to create trip');
+  } catch (error) {
+    throw toApiError(error, 'Failed to verify email');
+  }
+};
+
+export const resendVerificationEmail = async (signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.post(
+      API_ENDPOINTS.AUTH.RESEND_VERIFICATION,
+      undefined,
+      { signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to resend verification email');
+  }
+};
+
+export const getSessions = async (signal?: AbortSignal): Promise<UserSession[]> => {
+  try {
+    const response: AxiosResponse<UserSession[]> = await api.get(API_ENDPOINTS.AUTH.SESSIONS, { signal });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch sessions');
+  }
+};
+
+export const revokeSession = async (sessionId: string, signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.delete(
+      API_ENDPOINTS.AUTH.REVOKE_SESSION(sessionId),
+      { signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to revoke session');
+  }
+};
+
+export const logoutAllSessions = async (signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.post(API_ENDPOINTS.AUTH.LOGOUT_ALL, undefined, { signal });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to log out of all sessions');
+  }
+};
+
+// Trip API functions. Payloads and responses are mapped and checked in lib/schema.
+export const createTrip = async (tripData: CreateTripData, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post('/trips', toTripPayload(tripData), { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw renameFieldErrors(toApiError(error, 'Failed to create trip'), TRIP_FIELD_NAMES);
   }
 };
 
-export const getTrips = async (): Promise<Trip[]> => {
+export const getTrips = async (signal?: AbortSignal): Promise<Trip[]> => {
   try {
-    console.log('🚀 Making API call to:', `${process.env.NEXT_PUBLIC_API_URL}/trips`);
+    console.log('🚀 Making API call to:', `${api.defaults.baseURL}/trips`);
     console.log('🔑 Token present:', !!localStorage.getItem('token'));
     
-    const response: AxiosResponse<Trip[]> = await api.get('/trips');
+    const response: AxiosResponse<unknown> = await api.get('/trips', { signal });
     console.log('✅ API Success:', response.data);
-    return response.data;
+    return parseTrips(response.data);
   } catch (error: any) {
     console.error('❌ Full Error Object:', error);
     console.error('❌ Error Response:', error.response);
@@ -159,71 +409,220 @@ export const getTrips = async (): Promise<Trip[]> => {
     console.error('❌ Error Data:', error.response?.data);
     console.error('❌ Error Message:', error.message);
     
-    // More specific error handling
-    if (error.response) {
-      // Server responded with error status
-      throw new Error(error.response?.data?.error || `Server error: ${error.response.status}`);
-    } else if (error.request) {
-      // Request was made but no response received
-      throw new Error('No response from server. Check if backend is running.');
-    } else {
-      // Something else happened
-      throw new Error(`Request setup error: ${error.message}`);
-    }
+    throw toApiError(error, 'Failed to fetch trips');
   }
 };
 
-export const getUserTrips = async (): Promise<Trip[]> => {
+export const getUserTrips = async (signal?: AbortSignal): Promise<Trip[]> => {
   try {
-    const response: AxiosResponse<Trip[]> = await api.get('/users/trips');
-    return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to fetch user trips');
+    const response: AxiosResponse<unknown> = await api.get('/users/trips', { signal });
+    return parseTrips(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch user trips');
+  }
+};
+
+export const getTrip = async (id: number, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.get(`/trips/${id}`, { signal });
+    return parseTrip(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch trip');
+  }
+};
+
+export const searchTrips = async (searchData: SearchTripsData, signal?: AbortSignal): Promise<Trip[]> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(
+      '/trips/search',
+      toSearchPayload(searchData),
+      { retryable: true, signal }
+    );
+    return parseTrips(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to search trips');
   }
 };
 
-export const getTrip = async (id: number): Promise<Trip> => {
+// Companion names with nothing in them are left out
+const toBookingPayload = ({ seats, companions = [] }: JoinTripData) => ({
+  seats,
+  companions: companions.map(name => name.trim()).filter(Boolean),
+});
+
+export const joinTrip = async (
+  tripId: number,
+  booking: JoinTripData = { seats: 1 },
+  signal?: AbortSignal
+): Promise<{ message: string }> => {
   try {
-    const response: AxiosResponse<Trip> = await api.get(`/trips/${id}`);
+    const response: AxiosResponse<{ message: string }> = await api.post(
+      `/trips/${tripId}/join`,
+      toBookingPayload(booking),
+      { signal }
+    );
+    invalidateTripQueries();
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to fetch trip');
+  } catch (error) {
+    throw toApiError(error, 'Failed to join trip');
   }
 };
 
-export const searchTrips = async (searchData: SearchTripsData): Promise<Trip[]> => {
+// Gives the seat back; the backend tells the driver, including whether it was a late cancellation
+export const leaveTrip = async (tripId: number, leaveData: LeaveTripData, signal?: AbortSignal): Promise<LeaveTripResult> => {
   try {
-    const response: AxiosResponse<Trip[]> = await api.post('/trips/search', searchData);
+    const response: AxiosResponse<LeaveTripResult> = await api.post(API_ENDPOINTS.TRIPS.LEAVE(tripId), {
+      reason: leaveData.reason,
+      note: leaveData.note?.trim() || undefined,
+    }, { signal });
+    invalidateTripQueries();
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to search trips');
+  } catch (error) {
+    throw toApiError(error, 'Failed to leave trip');
+  }
+};
+
+export const updateTrip = async (id: number, tripData: UpdateTripData, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.put(`/trips/${id}`, toTripPayload(tripData), { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw renameFieldErrors(toApiError(error, 'Failed to update trip'), TRIP_FIELD_NAMES);
   }
 };
 
-export const joinTrip = async (tripId: number): Promise<{ message: string }> => {
+export const deleteTrip = async (id: number, signal?: AbortSignal): Promise<{ message: string }> => {
   try {
-    const response: AxiosResponse<{ message: string }> = await api.post(`/trips/${tripId}/join`);
+    const response: AxiosResponse<{ message: string }> = await api.delete(`/trips/${id}`, { signal });
+    invalidateTripQueries();
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to join trip');
+  } catch (error) {
+    throw toApiError(error, 'Failed to delete trip');
+  }
+};
+
+// Trip lifecycle. Each change is the driver's; the backend notifies the passengers.
+export const startTrip = async (tripId: number, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(API_ENDPOINTS.TRIPS.START(tripId), undefined, { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to start trip');
+  }
+};
+
+export const completeTrip = async (tripId: number, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(API_ENDPOINTS.TRIPS.COMPLETE(tripId), undefined, { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to complete trip');
+  }
+};
+
+export const cancelTrip = async (tripId: number, cancelData: CancelTripData, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(API_ENDPOINTS.TRIPS.CANCEL(tripId), {
+      reason: cancelData.reason,
+      note: cancelData.note?.trim() || undefined,
+    }, { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to cancel trip');
   }
 };
 
-export const updateTrip = async (id: number, tripData: Partial<CreateTripData>): Promise<Trip> => {
+// Waitlist for full trips. When seats free up the backend offers them to the front of
+// the line, and the passenger has until the offer expires to accept.
+export const joinWaitlist = async (tripId: number, booking: JoinTripData, signal?: AbortSignal): Promise<WaitlistEntry> => {
   try {
-    const response: AxiosResponse<Trip> = await api.put(`/trips/${id}`, tripData);
+    const response: AxiosResponse<unknown> = await api.post(
+      API_ENDPOINTS.TRIPS.WAITLIST(tripId),
+      toBookingPayload(booking),
+      { signal }
+    );
+    invalidateTripQueries();
+    return parseWaitlist(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to join waitlist');
+  }
+};
+
+// Also declines a seat offer, which then goes to the next person in line
+export const leaveWaitlist = async (tripId: number, signal?: AbortSignal): Promise<{ message: string }> => {
+  try {
+    const response: AxiosResponse<{ message: string }> = await api.delete(API_ENDPOINTS.TRIPS.WAITLIST(tripId), { signal });
+    invalidateTripQueries();
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to update trip');
+  } catch (error) {
+    throw toApiError(error, 'Failed to leave waitlist');
   }
 };
 
-export const deleteTrip = async (id: number): Promise<{ message: string }> => {
+export const acceptSeatOffer = async (tripId: number, signal?: AbortSignal): Promise<{ message: string }> => {
   try {
-    const response: AxiosResponse<{ message: string }> = await api.delete(`/trips/${id}`);
+    const response: AxiosResponse<{ message: string }> = await api.post(
+      API_ENDPOINTS.TRIPS.WAITLIST_ACCEPT(tripId),
+      undefined,
+      { signal }
+    );
+    invalidateTripQueries();
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to delete trip');
+  } catch (error) {
+    throw toApiError(error, 'Failed to accept seat');
+  }
+};
+
+// Join requests, for trips where the driver approves each passenger
+export const requestToJoinTrip = async (
+  tripId: number,
+  note?: string,
+  booking: JoinTripData = { seats: 1 },
+  signal?: AbortSignal
+): Promise<TripMatch> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(
+      API_ENDPOINTS.TRIPS.REQUESTS(tripId),
+      { note: note?.trim() || undefined, ...toBookingPayload(booking) },
+      { signal }
+    );
+    invalidateTripQueries();
+    return parseTripMatch(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to send join request');
+  }
+};
+
+// Pending requests with the passenger attached; only the driver can read them
+export const getTripRequests = async (tripId: number, signal?: AbortSignal): Promise<TripMatch[]> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.get(API_ENDPOINTS.TRIPS.REQUESTS(tripId), { signal });
+    return parseTripMatches(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch join requests');
+  }
+};
+
+export const respondToTripRequest = async (
+  tripId: number,
+  matchId: number,
+  status: 'confirmed' | 'declined',
+  signal?: AbortSignal
+): Promise<TripMatch> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.put(
+      API_ENDPOINTS.TRIPS.REQUEST(tripId, matchId),
+      { status },
+      { signal }
+    );
+    invalidateTripQueries();
+    return parseTripMatch(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to respond to join request');
   }
 };
 
@@ -234,20 +633,128 @@ export interface UpdateProfileData {
   profileImage?: string;
 }
 
-export const getUserProfile = async (): Promise<User> => {
+export const getUserProfile = async (signal?: AbortSignal): Promise<User> => {
   try {
-    const response: AxiosResponse<User> = await api.get('/users/profile');
+    const response: AxiosResponse<User> = await api.get('/users/profile', { signal });
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to fetch profile');
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch profile');
   }
 };
 
-export const updateUserProfile = async (profileData: UpdateProfileData): Promise<User> => {
+export const updateUserProfile = async (profileData: UpdateProfileData, signal?: AbortSignal): Promise<User> => {
   try {
-    const response: AxiosResponse<User> = await api.put('/users/profile', profileData);
+    const response: AxiosResponse<User> = await api.put('/users/profile', profileData, { signal });
     return response.data;
-  } catch (error: any) {
-    throw new Error(error.response?.data?.error || 'Failed to update profile');
+  } catch (error) {
+    throw toApiError(error, 'Failed to update profile');
+  }
+};
+
+export const requestPhoneOtp = async (phone: string, signal?: AbortSignal): Promise<PhoneOtpResponse> => {
+  try {
+    const response: AxiosResponse<PhoneOtpResponse> = await api.post(
+      API_ENDPOINTS.USERS.PHONE_OTP_REQUEST,
+      { phone },
+      { signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to send verification code');
+  }
+};
+
+export const verifyPhoneOtp = async (phone: string, code: string, signal?: AbortSignal): Promise<User> => {
+  try {
+    const response: AxiosResponse<User> = await api.post(API_ENDPOINTS.USERS.PHONE_OTP_VERIFY, {
+      phone,
+      code,
+    }, { signal });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to verify code');
+  }
+};
+
+export const getUserActivity = async (limit = 20, signal?: AbortSignal): Promise<UserActivity[]> => {
+  try {
+    const response: AxiosResponse<UserActivity[]> = await api.get(API_ENDPOINTS.USERS.ACTIVITY, {
+      params: { limit },
+      signal,
+    });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch account activity');
+  }
+};
+
+export const deleteAccount = async (deleteData: DeleteAccountData, signal?: AbortSignal): Promise<DeleteAccountResponse> => {
+  try {
+    const response: AxiosResponse<DeleteAccountResponse> = await api.delete(
+      API_ENDPOINTS.USERS.DELETE_ACCOUNT,
+      { data: deleteData, signal }
+    );
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to delete account');
+  }
+};
+
+// Admin API functions
+export const getAdminUsers = async (
+  criteria: UserSearchCriteria = {},
+  page = 1,
+  limit: number = PAGINATION.DEFAULT_PAGE_SIZE,
+  signal?: AbortSignal
+): Promise<UsersListResponse> => {
+  try {
+    const response: AxiosResponse<UsersListResponse> = await api.get(API_ENDPOINTS.ADMIN.USERS, {
+      params: { ...criteria, page, limit },
+      signal,
+    });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch users');
+  }
+};
+
+export const verifyUserAsAdmin = async (userId: number, signal?: AbortSignal): Promise<UserWithRole> => {
+  try {
+    const response: AxiosResponse<UserWithRole> = await api.post(API_ENDPOINTS.ADMIN.VERIFY_USER(userId), undefined, { signal });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to verify user');
+  }
+};
+
+export const setUserSuspended = async (userId: number, suspended: boolean, signal?: AbortSignal): Promise<UserWithRole> => {
+  try {
+    const response: AxiosResponse<UserWithRole> = await api.put(API_ENDPOINTS.ADMIN.SUSPEND_USER(userId), {
+      suspended,
+    }, { signal });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, 'Failed to update user status');
+  }
+};
+
+export const getAdminTrips = async (signal?: AbortSignal): Promise<Trip[]> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.get(API_ENDPOINTS.ADMIN.TRIPS, { signal });
+    return parseTrips(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to fetch trips');
+  }
+};
+
+export const cancelTripAsAdmin = async (tripId: number, reason: string, signal?: AbortSignal): Promise<Trip> => {
+  try {
+    const response: AxiosResponse<unknown> = await api.post(API_ENDPOINTS.ADMIN.CANCEL_TRIP(tripId), {
+      reason,
+    }, { signal });
+    invalidateTripQueries();
+    return parseTrip(response.data);
+  } catch (error) {
+    throw toApiError(error, 'Failed to cancel trip');
   }
 };
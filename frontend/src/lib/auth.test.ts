@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clearAuthTokens,
+  getSafeRedirectPath,
+  REFRESH_COOKIE_NAME,
+  ROLE_COOKIE_NAME,
+  setStoredUser,
+  storeAuthTokens
+} from '@/lib/auth'
+import { User, UserRole } from '@/types/user'
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(getSafeRedirectPath('/dashboard/trips?status=active#upcoming')).toBe(
+      '/dashboard/trips?status=active#upcoming'
+    )
+  })
+
+  it('falls back when there is no destination', () => {
+    expect(getSafeRedirectPath(null)).toBe('/dashboard')
+    expect(getSafeRedirectPath('', '/login')).toBe('/login')
+  })
+
+  it.each([
+    'https://evil.com',
+    'evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/%5Cevil.com',
+    '/%5cevil.com',
+    '/\t/evil.com',
+    '/%E0%A4%A'
+  ])('rejects %j', next => {
+    expect(getSafeRedirectPath(next)).toBe('/dashboard')
+  })
+})
+
+describe('session cookies', () => {
+  it('tells middleware whether a refresh token is stored', () => {
+    storeAuthTokens('header.e30.signature', 'refresh-token')
+    expect(document.cookie).toContain(`${REFRESH_COOKIE_NAME}=1`)
+
+    clearAuthTokens()
+    expect(document.cookie).not.toContain(REFRESH_COOKIE_NAME)
+  })
+
+  it("tells middleware the signed-in user's role", () => {
+    const user: User = {
+      id: 1,
+      name: 'Asha Driver',
+      email: 'asha@example.com',
+      phone: '9876543210',
+      isVerified: true,
+      createdAt: '2030-04-01T00:00:00.000Z',
+      updatedAt: '2030-04-01T00:00:00.000Z'
+    }
+
+    setStoredUser(user)
+    expect(document.cookie).toContain(`${ROLE_COOKIE_NAME}=${UserRole.USER}`)
+
+    setStoredUser({ ...user, role: UserRole.MODERATOR })
+    expect(document.cookie).toContain(`${ROLE_COOKIE_NAME}=${UserRole.MODERATOR}`)
+
+    clearAuthTokens()
+    expect(document.cookie).not.toContain(ROLE_COOKIE_NAME)
+  })
+})
@@ -1,25 +1,230 @@
-import { User } from '@/types/user'
+import Cookies from 'js-cookie'
+import { ProvisionalUser, User, UserRole } from '@/types/user'
 
 export const TOKEN_KEY = 'skfnlsfnlvksfnsfnlfsknslfknlfksnfslknfslvknspfa[ir[ijifnfpnf;vnlsfnkbnklfbn;sfnf;amokknfnflbnlflnbfbnslncnlnfnflnfnanlfsnflnlkfbnljbfnlkfnlnclnlvnlblnlfnnlslkflksldjfblbjlbjlbjgdlb;;dgsbjbsjbs;j'
 
+// Mirrors the stored access token so middleware can check the session server-side.
+// Kept to the same name the backend would use for an httpOnly cookie.
+export const AUTH_COOKIE_NAME = 'token'
+
+// Tells middleware a refresh token is stored, so an expired access token can still be
+// renewed on the client instead of sending the user to /login. Holds no secret.
+export const REFRESH_COOKIE_NAME = 'has_refresh_token'
+// The token carries no role, so the role from /auth/me is mirrored here for the
+// middleware to keep everyone else out of /admin; the API still enforces it
+export const ROLE_COOKIE_NAME = 'user_role'
+
 export function getStoredToken(): string | null {
   if (typeof window === 'undefined') return null
   return localStorage.getItem(TOKEN_KEY)
 }
 
+type TokenListener = (token: string | null) => void
+
+const tokenListeners = new Set<TokenListener>()
+
+// Notified whenever the access token is stored or removed, including silent refreshes
+export function subscribeToTokenChanges(listener: TokenListener): () => void {
+  tokenListeners.add(listener)
+  return () => {
+    tokenListeners.delete(listener)
+  }
+}
+
+function notifyTokenListeners(token: string | null): void {
+  tokenListeners.forEach(listener => listener(token))
+}
+
 export function setStoredToken(token: string): void {
   if (typeof window === 'undefined') return
   localStorage.setItem(TOKEN_KEY, token)
+  setAuthCookie(token)
+  notifyTokenListeners(token)
 }
 
 export function removeStoredToken(): void {
   if (typeof window === 'undefined') return
   localStorage.removeItem(TOKEN_KEY)
+  Cookies.remove(AUTH_COOKIE_NAME, { path: '/' })
+  notifyTokenListeners(null)
+}
+
+function setAuthCookie(token: string): void {
+  const expiry = getTokenExpiry(token)
+  Cookies.set(AUTH_COOKIE_NAME, token, {
+    path: '/',
+    sameSite: 'lax',
+    secure: window.location.protocol === 'https:',
+    expires: expiry ? new Date(expiry) : undefined
+  })
+}
+
+// Regular users may omit their role; they still get a cookie so middleware knows the check ran
+function setRoleCookie(user: User): void {
+  Cookies.set(ROLE_COOKIE_NAME, user.role ?? UserRole.USER, {
+    path: '/',
+    sameSite: 'lax',
+    secure: window.location.protocol === 'https:'
+  })
+}
+
+function setRefreshCookie(): void {
+  Cookies.set(REFRESH_COOKIE_NAME, '1', {
+    path: '/',
+    sameSite: 'lax',
+    secure: window.location.protocol === 'https:'
+  })
+}
+
+// Re-sync the cookies for sessions that only had the tokens in localStorage
+export function syncAuthCookie(): void {
+  const token = getStoredToken()
+  if (token && Cookies.get(AUTH_COOKIE_NAME) !== token) {
+    setAuthCookie(token)
+  }
+  if (getStoredRefreshToken() && !Cookies.get(REFRESH_COOKIE_NAME)) {
+    setRefreshCookie()
+  }
+  const user = getStoredUser()
+  if (user && !Cookies.get(ROLE_COOKIE_NAME)) {
+    setRoleCookie(user)
+  }
+}
+
+// Auth changes that other open tabs need to apply to their in-memory state.
+// Token changes reach other tabs through the localStorage 'storage' event.
+export type AuthSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'user-updated'; user: User }
+
+const AUTH_CHANNEL_NAME = 'rideshare-auth'
+const AUTH_EVENT_STORAGE_KEY = 'rideshare_auth_event'
+
+let authChannel: BroadcastChannel | null = null
+
+function getAuthChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null
+  if (!authChannel) {
+    authChannel = new BroadcastChannel(AUTH_CHANNEL_NAME)
+  }
+  return authChannel
+}
+
+export function broadcastAuthEvent(message: AuthSyncMessage): void {
+  if (typeof window === 'undefined') return
+
+  const channel = getAuthChannel()
+  if (channel) {
+    channel.postMessage(message)
+    return
+  }
+
+  // Fallback for browsers without BroadcastChannel: a write fires 'storage' in other tabs
+  localStorage.setItem(AUTH_EVENT_STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }))
+  localStorage.removeItem(AUTH_EVENT_STORAGE_KEY)
+}
+
+export function subscribeToAuthEvents(listener: (message: AuthSyncMessage) => void): () => void {
+  if (typeof window === 'undefined') return () => {}
+
+  const channel = getAuthChannel()
+  if (channel) {
+    const handleMessage = (event: MessageEvent<AuthSyncMessage>) => listener(event.data)
+    channel.addEventListener('message', handleMessage)
+    return () => channel.removeEventListener('message', handleMessage)
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== AUTH_EVENT_STORAGE_KEY || !event.newValue) return
+    try {
+      listener(JSON.parse(event.newValue).message)
+    } catch {
+      // Ignore malformed events
+    }
+  }
+  window.addEventListener('storage', handleStorage)
+  return () => window.removeEventListener('storage', handleStorage)
+}
+
+export const REFRESH_TOKEN_KEY = 'rideshare_refresh_token'
+
+export function getStoredRefreshToken(): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(REFRESH_TOKEN_KEY)
+}
+
+export function setStoredRefreshToken(token: string): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(REFRESH_TOKEN_KEY, token)
+  setRefreshCookie()
+}
+
+export function removeStoredRefreshToken(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
+  Cookies.remove(REFRESH_COOKIE_NAME, { path: '/' })
+}
+
+// Store the access token and, when the backend issued one, the refresh token
+export function storeAuthTokens(token: string, refreshToken?: string): void {
+  setStoredToken(token)
+  if (refreshToken) {
+    setStoredRefreshToken(refreshToken)
+  }
+}
+
+export function clearAuthTokens(): void {
+  removeStoredToken()
+  removeStoredRefreshToken()
+  removeStoredUser()
+}
+
+// The last user /auth/me returned, so the dashboard can render straight away on
+// a cold backend or offline, while the fresh copy is still on its way
+export const USER_KEY = 'rideshare_user'
+
+export function getStoredUser(): User | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = localStorage.getItem(USER_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function setStoredUser(user: User): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(USER_KEY, JSON.stringify(user))
+  setRoleCookie(user)
+}
+
+export function removeStoredUser(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(USER_KEY)
+  Cookies.remove(ROLE_COOKIE_NAME, { path: '/' })
+}
+
+function decodeTokenPayload(token: string) {
+  // JWT segments are base64url encoded
+  const segment = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+  return JSON.parse(atob(segment))
+}
+
+// Expiry of the token in milliseconds since epoch, or null if it has none
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = decodeTokenPayload(token)
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null
+  } catch {
+    return null
+  }
 }
 
 export function isTokenExpired(token: string): boolean {
   try {
-    const payload = JSON.parse(atob(token.split('.')[1]))
+    const payload = decodeTokenPayload(token)
     const currentTime = Date.now() / 1000
     return payload.exp < currentTime
   } catch {
@@ -27,9 +232,10 @@ export function isTokenExpired(token: string): boolean {
   }
 }
 
-export function getUserFromToken(token: string): Partial<User> | null {
+export function getUserFromToken(token: string): ProvisionalUser | null {
   try {
-    const payload = JSON.parse(atob(token.split('.')[1]))
+    const payload = decodeTokenPayload(token)
+    if (!payload.user_id) return null
     return {
       id: payload.user_id,
       email: payload.email,
@@ -39,3 +245,44 @@ export function getUserFromToken(token: string): Partial<User> | null {
     return null
   }
 }
+
+const REDIRECT_BASE = 'http://localhost'
+
+// Only allow same-origin relative paths as post-login destinations.
+// Browsers read a backslash as a slash, so "/\evil.com" would leave the site.
+export function getSafeRedirectPath(next: string | null | undefined, fallback = '/dashboard'): string {
+  if (!next || !next.startsWith('/') || hasBackslash(next)) return fallback
+  try {
+    const url = new URL(next, REDIRECT_BASE)
+    if (url.origin !== REDIRECT_BASE) return fallback
+    return url.pathname + url.search + url.hash
+  } catch {
+    return fallback
+  }
+}
+
+// Also checks the decoded form, and treats anything that will not decode as unsafe
+function hasBackslash(path: string): boolean {
+  if (path.includes('\\')) return true
+  try {
+    return decodeURIComponent(path).includes('\\')
+  } catch {
+    return true
+  }
+}
+
+export function buildLoginUrl(next?: string): string {
+  return next ? `/login?next=${encodeURIComponent(next)}` : '/login'
+}
+
+// Accounts from before email verification existed have no flag and count as verified
+export function needsEmailVerification(user: Partial<User> | null): boolean {
+  return !!user && user.isEmailVerified === false
+}
+
+const STAFF_ROLES: string[] = [UserRole.ADMIN, UserRole.MODERATOR]
+
+// Admins and moderators can open the admin console
+export function hasAdminAccess(role: string | null | undefined): boolean {
+  return !!role && STAFF_ROLES.includes(role)
+}
@@ -0,0 +1,8 @@
+import { runtimeConfig } from '@/lib/config'
+
+// Leaving inside the cutoff is still allowed, but the driver is told it was late.
+// The mock API uses the same rule as the UI's warning.
+export function isLateCancellation(departureTime: string, now: number = Date.now()): boolean {
+  const cutoffMs = runtimeConfig.lateCancellationHours * 60 * 60 * 1000
+  return new Date(departureTime).getTime() - now < cutoffMs
+}
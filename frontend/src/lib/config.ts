@@ -0,0 +1,159 @@
+export type AppEnvironment = 'production' | 'staging' | 'development' | 'mock'
+
+export interface FeatureFlags {
+  debugLogging: boolean
+  environmentBadge: boolean
+  warmUpOnLoad: boolean
+  // Service worker caching and the offline outbox
+  offlineSupport: boolean
+}
+
+export interface RetryConfig {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface MockConfig {
+  // Name of a scenario in src/mocks/scenarios.ts; checked when the mock API starts
+  scenario: string
+  latencyMs: number
+}
+
+export interface RuntimeConfig {
+  environment: AppEnvironment
+  apiBaseUrl: string
+  apiTimeoutMs: number
+  // How long a request may hang before we tell the user the server is waking up
+  coldStartThresholdMs: number
+  retry: RetryConfig
+  // Passengers leaving closer to departure than this are flagged to the driver as a late cancellation
+  lateCancellationHours: number
+  features: FeatureFlags
+  // Only used in the mock environment, where requests never leave the browser
+  mock: MockConfig
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid runtime configuration: ${message}`)
+    this.name = 'ConfigError'
+  }
+}
+
+const ENVIRONMENTS: AppEnvironment[] = ['production', 'staging', 'development', 'mock']
+
+// Used when NEXT_PUBLIC_API_URL is not set; staging has no default on purpose
+const DEFAULT_API_URLS: Partial<Record<AppEnvironment, string>> = {
+  production: 'https://ridesharebackend-1.onrender.com',
+  development: 'http://localhost:8080',
+  // Never contacted; the mock adapter answers every request
+  mock: 'http://mock.rideshare.invalid'
+}
+
+// The Render backend sleeps when idle, so the first request can take close to a minute
+const DEFAULT_TIMEOUT_MS = 60000
+const DEFAULT_COLD_START_THRESHOLD_MS = 4000
+const DEFAULT_MOCK_LATENCY_MS = 300
+const DEFAULT_LATE_CANCELLATION_HOURS = 24
+const DEFAULT_RETRY: RetryConfig = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000
+}
+
+// Next.js only inlines NEXT_PUBLIC_* variables that are referenced literally
+const rawEnv = {
+  appEnv: process.env.NEXT_PUBLIC_APP_ENV,
+  apiUrl: process.env.NEXT_PUBLIC_API_URL,
+  apiTimeoutMs: process.env.NEXT_PUBLIC_API_TIMEOUT_MS,
+  coldStartThresholdMs: process.env.NEXT_PUBLIC_COLD_START_THRESHOLD_MS,
+  maxRetries: process.env.NEXT_PUBLIC_API_MAX_RETRIES,
+  retryBaseDelayMs: process.env.NEXT_PUBLIC_API_RETRY_BASE_DELAY_MS,
+  retryMaxDelayMs: process.env.NEXT_PUBLIC_API_RETRY_MAX_DELAY_MS,
+  lateCancellationHours: process.env.NEXT_PUBLIC_LATE_CANCELLATION_HOURS,
+  debugLogging: process.env.NEXT_PUBLIC_FEATURE_DEBUG_LOGGING,
+  environmentBadge: process.env.NEXT_PUBLIC_FEATURE_ENVIRONMENT_BADGE,
+  warmUpOnLoad: process.env.NEXT_PUBLIC_FEATURE_WARM_UP,
+  offlineSupport: process.env.NEXT_PUBLIC_FEATURE_OFFLINE,
+  mockScenario: process.env.NEXT_PUBLIC_MOCK_SCENARIO,
+  mockLatencyMs: process.env.NEXT_PUBLIC_MOCK_LATENCY_MS
+}
+
+function parseEnvironment(value: string | undefined): AppEnvironment {
+  if (!value) return 'production'
+  if (!ENVIRONMENTS.includes(value as AppEnvironment)) {
+    throw new ConfigError(`NEXT_PUBLIC_APP_ENV must be one of ${ENVIRONMENTS.join(', ')} (got "${value}")`)
+  }
+  return value as AppEnvironment
+}
+
+function parseBaseUrl(value: string | undefined, environment: AppEnvironment): string {
+  const url = value || DEFAULT_API_URLS[environment]
+  if (!url) {
+    throw new ConfigError(`NEXT_PUBLIC_API_URL is required for the ${environment} environment`)
+  }
+  try {
+    new URL(url)
+  } catch {
+    throw new ConfigError(`NEXT_PUBLIC_API_URL is not a valid URL (got "${url}")`)
+  }
+  return url.replace(/\/+$/, '')
+}
+
+function parseInteger(name: string, value: string | undefined, fallback: number, min = 1): number {
+  if (!value) return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new ConfigError(`${name} must be an integer of at least ${min} (got "${value}")`)
+  }
+  return parsed
+}
+
+function parseFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === '') return fallback
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  throw new ConfigError(`feature flags must be true/false (got "${value}")`)
+}
+
+function loadConfig(): RuntimeConfig {
+  const environment = parseEnvironment(rawEnv.appEnv)
+  const isProduction = environment === 'production'
+
+  return {
+    environment,
+    apiBaseUrl: parseBaseUrl(rawEnv.apiUrl, environment),
+    apiTimeoutMs: parseInteger('NEXT_PUBLIC_API_TIMEOUT_MS', rawEnv.apiTimeoutMs, DEFAULT_TIMEOUT_MS),
+    coldStartThresholdMs: parseInteger(
+      'NEXT_PUBLIC_COLD_START_THRESHOLD_MS',
+      rawEnv.coldStartThresholdMs,
+      DEFAULT_COLD_START_THRESHOLD_MS
+    ),
+    retry: {
+      maxRetries: parseInteger('NEXT_PUBLIC_API_MAX_RETRIES', rawEnv.maxRetries, DEFAULT_RETRY.maxRetries, 0),
+      baseDelayMs: parseInteger('NEXT_PUBLIC_API_RETRY_BASE_DELAY_MS', rawEnv.retryBaseDelayMs, DEFAULT_RETRY.baseDelayMs),
+      maxDelayMs: parseInteger('NEXT_PUBLIC_API_RETRY_MAX_DELAY_MS', rawEnv.retryMaxDelayMs, DEFAULT_RETRY.maxDelayMs)
+    },
+    lateCancellationHours: parseInteger(
+      'NEXT_PUBLIC_LATE_CANCELLATION_HOURS',
+      rawEnv.lateCancellationHours,
+      DEFAULT_LATE_CANCELLATION_HOURS,
+      0
+    ),
+    features: {
+      debugLogging: parseFlag(rawEnv.debugLogging, !isProduction),
+      environmentBadge: parseFlag(rawEnv.environmentBadge, !isProduction),
+      warmUpOnLoad: parseFlag(rawEnv.warmUpOnLoad, true),
+      // A service worker serving cached bundles fights with hot reload, so it is only on for deployed builds
+      offlineSupport: parseFlag(rawEnv.offlineSupport, isProduction || environment === 'staging')
+    },
+    mock: {
+      scenario: rawEnv.mockScenario || 'default',
+      latencyMs: parseInteger('NEXT_PUBLIC_MOCK_LATENCY_MS', rawEnv.mockLatencyMs, DEFAULT_MOCK_LATENCY_MS, 0)
+    }
+  }
+}
+
+// Validated once at startup so a bad .env fails loudly instead of at the first request
+export const runtimeConfig: RuntimeConfig = loadConfig()
@@ -1,9 +1,19 @@
+import { CancellationReason, TripCancellationReason } from '@/types/trip'
+
 export const API_ENDPOINTS = {
+  HEALTH: '/health',
   AUTH: {
     LOGIN: '/auth/login',
     REGISTER: '/auth/register',
     ME: '/auth/me',
-    REFRESH: '/auth/refresh'
+    REFRESH: '/auth/refresh',
+    FORGOT_PASSWORD: '/auth/forgot-password',
+    RESET_PASSWORD: '/auth/reset-password',
+    VERIFY_EMAIL: '/auth/verify-email',
+    RESEND_VERIFICATION: '/auth/verify-email/resend',
+    SESSIONS: '/auth/sessions',
+    REVOKE_SESSION: (id: string) => `/auth/sessions/${id}`,
+    LOGOUT_ALL: '/auth/logout-all'
   },
   TRIPS: {
     LIST: '/trips',
@@ -12,16 +22,36 @@ export const API_ENDPOINTS = {
     UPDATE: (id: number) => `/trips/${id}`,
     DELETE: (id: number) => `/trips/${id}`,
     JOIN: (id: number) => `/trips/${id}/join`,
+    LEAVE: (id: number) => `/trips/${id}/leave`,
+    START: (id: number) => `/trips/${id}/start`,
+    COMPLETE: (id: number) => `/trips/${id}/complete`,
+    CANCEL: (id: number) => `/trips/${id}/cancel`,
+    WAITLIST: (id: number) => `/trips/${id}/waitlist`,
+    WAITLIST_ACCEPT: (id: number) => `/trips/${id}/waitlist/accept`,
+    REQUESTS: (id: number) => `/trips/${id}/requests`,
+    REQUEST: (id: number, matchId: number) => `/trips/${id}/requests/${matchId}`,
     SEARCH: '/trips/search'
   },
   USERS: {
     PROFILE: '/users/profile',
-    UPDATE_PROFILE: '/users/profile'
+    UPDATE_PROFILE: '/users/profile',
+    PHONE_OTP_REQUEST: '/users/phone/otp',
+    PHONE_OTP_VERIFY: '/users/phone/verify',
+    ACTIVITY: '/users/activity',
+    DELETE_ACCOUNT: '/users/account'
+  },
+  ADMIN: {
+    USERS: '/admin/users',
+    VERIFY_USER: (id: number) => `/admin/users/${id}/verify`,
+    SUSPEND_USER: (id: number) => `/admin/users/${id}/suspend`,
+    TRIPS: '/admin/trips',
+    CANCEL_TRIP: (id: number) => `/admin/trips/${id}/cancel`
   }
 } as const
 
 export const TRIP_STATUS = {
   ACTIVE: 'active',
+  IN_PROGRESS: 'in_progress',
   COMPLETED: 'completed',
   CANCELLED: 'cancelled'
 } as const
@@ -32,6 +62,59 @@ export const USER_ROLES = {
   MODERATOR: 'moderator'
 } as const
 
+export const SESSION = {
+  // Silently refresh the access token this long before it expires
+  REFRESH_LEAD_TIME_MS: 2 * 60 * 1000,
+  // Warn the user this long before expiry when a silent refresh is not possible
+  WARNING_LEAD_TIME_MS: 5 * 60 * 1000,
+  // Try a refresh that could not reach the server again after this long
+  REFRESH_RETRY_MS: 30 * 1000
+} as const
+
+export const ACCOUNT = {
+  // Days a deleted account can still be restored by signing back in
+  DELETION_GRACE_PERIOD_DAYS: 30
+} as const
+
+export const QUERY_CACHE = {
+  // Cached data younger than this is served without refetching
+  STALE_TIME_MS: 30 * 1000
+} as const
+
+export const TOAST = {
+  DEFAULT_DURATION_MS: 4000,
+  // How long an edit or delete can be undone before it is sent to the server
+  UNDO_WINDOW_MS: 5000
+} as const
+
+export const CANCELLATION_REASONS: Record<CancellationReason, string> = {
+  plans_changed: 'My plans changed',
+  found_other_ride: 'I found another ride',
+  schedule_conflict: 'The departure time no longer works for me',
+  emergency: 'Emergency',
+  other: 'Something else'
+}
+
+// Reasons a driver can give for cancelling; passengers see the label
+export const TRIP_CANCELLATION_REASONS: Record<TripCancellationReason, string> = {
+  vehicle_issue: 'Problem with the vehicle',
+  schedule_change: 'My schedule changed',
+  not_enough_passengers: 'Not enough passengers',
+  weather: 'Weather or road conditions',
+  emergency: 'Emergency',
+  other: 'Something else'
+}
+
+export const TRIP_LIFECYCLE = {
+  // Drivers can start a trip this long before its departure time
+  START_WINDOW_MS: 60 * 60 * 1000
+} as const
+
+export const OFFLINE = {
+  OUTBOX_STORAGE_KEY: 'rideshare_outbox',
+  SERVICE_WORKER_URL: '/sw.js'
+} as const
+
 export const PAGINATION = {
   DEFAULT_PAGE_SIZE: 10,
   MAX_PAGE_SIZE: 100
@@ -44,7 +127,10 @@ export const VALIDATION = {
   MIN_PRICE: 0,
   MAX_PRICE: 1000,
   MIN_PASSENGERS: 1,
-  MAX_PASSENGERS: 8
+  MAX_PASSENGERS: 8,
+  OTP_LENGTH: 6,
+  OTP_RESEND_COOLDOWN_SECONDS: 60,
+  OTP_MAX_ATTEMPTS: 5
 } as const
 
 export const MESSAGES = {
@@ -53,14 +139,29 @@ export const MESSAGES = {
     TRIP_UPDATED: 'Trip updated successfully!',
     TRIP_DELETED: 'Trip deleted successfully!',
     PROFILE_UPDATED: 'Profile updated successfully!',
-    TRIP_JOINED: 'Successfully joined the trip!'
+    TRIP_JOINED: 'Successfully joined the trip!',
+    PASSWORD_RESET_REQUESTED: 'If an account exists for that email, a reset code is on its way.',
+    PASSWORD_RESET: 'Your password has been reset. You can now sign in.',
+    PHONE_VERIFIED: 'Your phone number has been verified!',
+    EMAIL_VERIFIED: 'Your email has been verified!',
+    VERIFICATION_EMAIL_SENT: 'Verification email sent. Please check your inbox.',
+    QUEUED_OFFLINE: "You're offline. We'll send this as soon as you're back online."
   },
   ERROR: {
     GENERIC: 'Something went wrong. Please try again.',
     NETWORK: 'Network error. Please check your connection.',
+    TIMEOUT: 'The server took too long to respond. Please try again.',
+    SERVER: 'The server ran into a problem. Please try again in a moment.',
+    INVALID_RESPONSE: 'The server sent something we didn\'t understand. Please try again later.',
     UNAUTHORIZED: 'You are not authorized to perform this action.',
     TRIP_NOT_FOUND: 'Trip not found.',
     TRIP_FULL: 'This trip is already full.',
-    INVALID_CREDENTIALS: 'Invalid email or password.'
+    INVALID_CREDENTIALS: 'Invalid email or password.',
+    INVALID_RESET_TOKEN: 'This reset link is invalid or has expired. Please request a new one.',
+    VERIFIED_PASSENGERS_ONLY: 'This trip is only open to passengers with a verified phone number.',
+    OTP_ATTEMPTS_EXCEEDED: 'Too many incorrect codes. Please request a new one.',
+    INVALID_VERIFICATION_TOKEN: 'This verification link is invalid or has expired.',
+    EMAIL_NOT_VERIFIED: 'Please verify your email before creating trips.',
+    ADMIN_ONLY: 'You need an admin or moderator account to view this page.'
   }
 } as const
@@ -0,0 +1,84 @@
+import { getUserActivity, getUserProfile, getUserTrips } from '@/lib/api'
+import { Trip } from '@/types/trip'
+import { User, UserActivity } from '@/types/user'
+
+export interface UserDataExport {
+  exportedAt: string
+  profile: User
+  tripsDriven: Trip[]
+  tripsJoined: Trip[]
+  activity: UserActivity[]
+}
+
+// Collect everything we hold about the signed-in user into one object
+export async function buildUserDataExport(): Promise<UserDataExport> {
+  const [profile, trips, activity] = await Promise.all([
+    getUserProfile(),
+    getUserTrips(),
+    getUserActivity(1000)
+  ])
+
+  const allTrips = Array.isArray(trips) ? (trips as Trip[]) : []
+  // Passwords never leave the backend, but strip the field defensively
+  const safeProfile = { ...profile }
+  delete safeProfile.password
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: safeProfile,
+    tripsDriven: allTrips.filter(trip => trip.driverId === profile.id),
+    tripsJoined: allTrips.filter(trip => trip.driverId !== profile.id),
+    activity: Array.isArray(activity) ? activity : []
+  }
+}
+
+function escapeCsvValue(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n')
+}
+
+// One row per trip, tagged with the user's role on it
+export function tripsToCsv(data: UserDataExport): string {
+  const headers = ['role', 'id', 'from', 'to', 'departureTime', 'status', 'pricePerPerson', 'currentPassengers', 'maxPassengers', 'description']
+  const toRow = (role: string) => (trip: Trip) => [
+    role,
+    trip.id,
+    trip.from,
+    trip.to,
+    trip.departureTime,
+    trip.status,
+    trip.pricePerPerson,
+    trip.currentPassengers,
+    trip.maxPassengers,
+    trip.description
+  ]
+
+  return toCsv(headers, [
+    ...data.tripsDriven.map(toRow('driver')),
+    ...data.tripsJoined.map(toRow('passenger'))
+  ])
+}
+
+export function activityToCsv(data: UserDataExport): string {
+  return toCsv(
+    ['id', 'action', 'details', 'timestamp', 'ipAddress'],
+    data.activity.map(entry => [entry.id, entry.action, entry.details, entry.timestamp, entry.ipAddress])
+  )
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Safari drops the download if the URL is revoked in the same tick as the click
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,28 @@
+import { AxiosError } from 'axios'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MESSAGES } from '@/lib/constants'
+import { toApiError } from '@/lib/errors'
+
+describe('toApiError', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('treats a request that never got a response as a network error', () => {
+    const error = toApiError(new AxiosError('Network Error', 'ERR_NETWORK'))
+
+    expect(error.kind).toBe('network')
+    expect(error.recoveryAction).toBe('retry')
+  })
+
+  it('does not mistake a bug in our own code for a network error', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const bug = new TypeError("Cannot read properties of undefined (reading 'id')")
+
+    const error = toApiError(bug, 'Failed to update trip')
+
+    expect(error).toMatchObject({ kind: 'unknown', message: 'Failed to update trip', cause: bug })
+    expect(error.recoveryAction).toBe('none')
+    expect(toApiError('oops').message).toBe(MESSAGES.ERROR.GENERIC)
+  })
+})
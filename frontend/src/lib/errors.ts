@@ -0,0 +1,219 @@
+import { AxiosError, isAxiosError, isCancel } from 'axios'
+import { MESSAGES } from '@/lib/constants'
+import { SchemaError } from '@/lib/schema'
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'unauthorized'
+  | 'not-found'
+  | 'conflict'
+  | 'server'
+  | 'cancelled'
+  // The request succeeded but the body didn't match its schema
+  | 'invalid-response'
+  // Thrown by our own code rather than the request, i.e. a bug; never worth retrying
+  | 'unknown'
+
+// What the UI should offer the user next for a given failure
+export type RecoveryAction = 'retry' | 'sign-in' | 'fix-input' | 'go-back' | 'none'
+
+export type FieldErrors = Record<string, string>
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind
+  message: string
+  status?: number
+  code?: string
+  fieldErrors?: FieldErrors
+  requestId?: string
+  cause?: unknown
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly status?: number
+  readonly code?: string
+  readonly fieldErrors: FieldErrors
+  readonly requestId?: string
+  readonly cause?: unknown
+
+  constructor({ kind, message, status, code, fieldErrors = {}, requestId, cause }: ApiErrorOptions) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.status = status
+    this.code = code
+    this.fieldErrors = fieldErrors
+    this.requestId = requestId
+    this.cause = cause
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0
+  }
+
+  get recoveryAction(): RecoveryAction {
+    switch (this.kind) {
+      case 'network':
+      case 'timeout':
+      case 'server':
+        return 'retry'
+      case 'unauthorized':
+        return this.status === 401 ? 'sign-in' : 'none'
+      case 'validation':
+        return 'fix-input'
+      case 'not-found':
+        return 'go-back'
+      default:
+        return 'none'
+    }
+  }
+}
+
+// Shape of the JSON error body the backend sends; every field is optional
+interface ApiErrorBody {
+  error?: string
+  message?: string
+  code?: string
+  requestId?: string
+  errors?: FieldErrors | { field: string; message: string }[]
+  fields?: FieldErrors
+}
+
+// Messages for well-known backend error codes, so copy stays consistent across pages
+const CODE_MESSAGES: Record<string, string> = {
+  TRIP_NOT_FOUND: MESSAGES.ERROR.TRIP_NOT_FOUND,
+  TRIP_FULL: MESSAGES.ERROR.TRIP_FULL,
+  INVALID_CREDENTIALS: MESSAGES.ERROR.INVALID_CREDENTIALS,
+  INVALID_RESET_TOKEN: MESSAGES.ERROR.INVALID_RESET_TOKEN,
+  INVALID_VERIFICATION_TOKEN: MESSAGES.ERROR.INVALID_VERIFICATION_TOKEN,
+  VERIFIED_PASSENGERS_ONLY: MESSAGES.ERROR.VERIFIED_PASSENGERS_ONLY,
+  OTP_ATTEMPTS_EXCEEDED: MESSAGES.ERROR.OTP_ATTEMPTS_EXCEEDED,
+  EMAIL_NOT_VERIFIED: MESSAGES.ERROR.EMAIL_NOT_VERIFIED
+}
+
+// Used when neither the code nor the body gives us anything more specific
+const KIND_MESSAGES: Partial<Record<ApiErrorKind, string>> = {
+  network: MESSAGES.ERROR.NETWORK,
+  timeout: MESSAGES.ERROR.TIMEOUT,
+  unauthorized: MESSAGES.ERROR.UNAUTHORIZED,
+  server: MESSAGES.ERROR.SERVER
+}
+
+function kindFromStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 422) return 'validation'
+  if (status === 401 || status === 403) return 'unauthorized'
+  if (status === 404 || status === 410) return 'not-found'
+  if (status === 409) return 'conflict'
+  return 'server'
+}
+
+function parseFieldErrors(body: ApiErrorBody): FieldErrors {
+  const source = body.fields ?? body.errors
+  if (!source) return {}
+
+  if (Array.isArray(source)) {
+    return source.reduce<FieldErrors>((acc, item) => {
+      if (item?.field && item?.message) acc[item.field] = item.message
+      return acc
+    }, {})
+  }
+
+  return typeof source === 'object' ? { ...source } : {}
+}
+
+function messageFor(kind: ApiErrorKind, body: ApiErrorBody, fallback: string): string {
+  if (body.code && CODE_MESSAGES[body.code]) return CODE_MESSAGES[body.code]
+  // Backend messages are written for end users, so prefer them over our defaults
+  const serverMessage = body.error || body.message
+  if (serverMessage) return serverMessage
+  // A 5xx with no body says nothing useful, but the caller's fallback still names the action
+  if (kind === 'server' || kind === 'unauthorized') return KIND_MESSAGES[kind] ?? fallback
+  return fallback
+}
+
+// Normalise anything thrown by axios, or by our own code, into an ApiError
+export function toApiError(error: unknown, fallback: string = MESSAGES.ERROR.GENERIC): ApiError {
+  if (error instanceof ApiError) return error
+
+  if (error instanceof SchemaError) {
+    console.error(error.message)
+    return new ApiError({
+      kind: 'invalid-response',
+      message: MESSAGES.ERROR.INVALID_RESPONSE,
+      code: 'INVALID_RESPONSE',
+      cause: error
+    })
+  }
+
+  // Aborted on purpose (unmount, newer search); callers should simply ignore these
+  if (isCancel(error)) {
+    return new ApiError({ kind: 'cancelled', message: 'Request was cancelled', cause: error })
+  }
+
+  if (!isAxiosError(error)) {
+    console.error(error)
+    return new ApiError({ kind: 'unknown', message: fallback, cause: error })
+  }
+
+  const axiosError = error as AxiosError<ApiErrorBody>
+
+  if (!axiosError.response) {
+    const kind: ApiErrorKind = axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT'
+      ? 'timeout'
+      : 'network'
+    return new ApiError({ kind, message: KIND_MESSAGES[kind] ?? fallback, code: axiosError.code, cause: error })
+  }
+
+  const { status, data, headers } = axiosError.response
+  const body: ApiErrorBody = data && typeof data === 'object' ? data : {}
+  const kind = kindFromStatus(status)
+
+  return new ApiError({
+    kind,
+    status,
+    code: body.code,
+    message: messageFor(kind, body, fallback),
+    fieldErrors: parseFieldErrors(body),
+    requestId: body.requestId || headers?.['x-request-id'],
+    cause: error
+  })
+}
+
+// Field errors name the backend's fields; rename them to the ones the form uses
+export function renameFieldErrors(error: ApiError, names: Record<string, string>): ApiError {
+  if (!error.hasFieldErrors) return error
+  const fieldErrors = Object.fromEntries(
+    Object.entries(error.fieldErrors).map(([field, message]) => [names[field] ?? field, message])
+  )
+  return new ApiError({
+    kind: error.kind,
+    message: error.message,
+    status: error.status,
+    code: error.code,
+    fieldErrors,
+    requestId: error.requestId,
+    cause: error.cause
+  })
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return isCancel(error) || (isApiError(error) && error.kind === 'cancelled')
+}
+
+// Single-use links (password reset, email verification) fail this way once used or expired
+export function isInvalidTokenError(error: unknown): boolean {
+  return isApiError(error) && error.kind === 'not-found'
+}
+
+// For catch blocks that only need a string to show
+export function getErrorMessage(error: unknown, fallback: string = MESSAGES.ERROR.GENERIC): string {
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
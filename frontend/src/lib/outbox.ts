@@ -0,0 +1,270 @@
+import {
+  cancelTrip,
+  createTrip,
+  deleteTrip,
+  joinTrip,
+  leaveTrip,
+  updateTrip,
+  updateUserProfile,
+  UpdateProfileData
+} from '@/lib/api'
+import { getStoredToken, getUserFromToken } from '@/lib/auth'
+import { runtimeConfig } from '@/lib/config'
+import { OFFLINE } from '@/lib/constants'
+import { ApiError, toApiError } from '@/lib/errors'
+import { invalidateTripQueries } from '@/lib/queryCache'
+import { showToast } from '@/lib/toast'
+import {
+  CancelTripData,
+  CreateTripData,
+  JoinTripData,
+  LeaveTripData,
+  UpdateTripData
+} from '@/types/trip'
+
+// Writes made while offline are kept here (and in localStorage, so they survive
+// a reload) and replayed in order once the connection comes back.
+
+export type OutboxOperation =
+  | { type: 'createTrip'; payload: CreateTripData }
+  // Entries queued before group bookings have no booking and hold one seat
+  | { type: 'joinTrip'; payload: { tripId: number; booking?: JoinTripData } }
+  | { type: 'updateProfile'; payload: UpdateProfileData }
+  // Undoable trip changes still in their undo window when the page was closed
+  | { type: 'updateTrip'; payload: { tripId: number; changes: UpdateTripData } }
+  | { type: 'deleteTrip'; payload: { tripId: number } }
+  | { type: 'cancelTrip'; payload: { tripId: number; data: CancelTripData } }
+  | { type: 'leaveTrip'; payload: { tripId: number; data: LeaveTripData } }
+
+export type OutboxEntry = OutboxOperation & {
+  id: string
+  // Whoever queued the write; entries from before owners were recorded have none and are never sent
+  userId?: number
+  // Human readable, e.g. "Join Pune → Mumbai"
+  label: string
+  queuedAt: number
+}
+
+// A queued write the server rejected on replay, e.g. the trip filled up meanwhile
+export interface OutboxConflict {
+  entry: OutboxEntry
+  message: string
+  code?: string
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[]
+  conflicts: OutboxConflict[]
+  isReplaying: boolean
+}
+
+export type SendResult<T> =
+  | { status: 'sent'; result: T }
+  | { status: 'queued'; entry: OutboxEntry }
+
+type OutboxListener = (state: OutboxState) => void
+
+let state: OutboxState = { entries: [], conflicts: [], isReplaying: false }
+let isLoaded = false
+const listeners = new Set<OutboxListener>()
+
+function getCurrentUserId(): number | null {
+  const token = getStoredToken()
+  return token ? getUserFromToken(token)?.id ?? null : null
+}
+
+function load() {
+  if (isLoaded || typeof window === 'undefined') return
+  isLoaded = true
+  try {
+    const stored = localStorage.getItem(OFFLINE.OUTBOX_STORAGE_KEY)
+    if (stored) {
+      const { entries = [], conflicts = [] } = JSON.parse(stored)
+      state = { ...state, entries, conflicts }
+    }
+  } catch (error) {
+    console.error('Error reading offline outbox:', error)
+  }
+  dropOtherUsersEntries()
+}
+
+// Someone else may have queued writes on this browser and never come back online.
+// They must not be sent with the current user's token, so they are dropped.
+function dropOtherUsersEntries() {
+  const userId = getCurrentUserId()
+  if (userId === null) return
+  const isOwn = (entry: OutboxEntry) => entry.userId === userId
+  if (state.entries.every(isOwn) && state.conflicts.every(conflict => isOwn(conflict.entry))) return
+  setState({
+    entries: state.entries.filter(isOwn),
+    conflicts: state.conflicts.filter(conflict => isOwn(conflict.entry))
+  })
+}
+
+function setState(patch: Partial<OutboxState>) {
+  state = { ...state, ...patch }
+  try {
+    localStorage.setItem(
+      OFFLINE.OUTBOX_STORAGE_KEY,
+      JSON.stringify({ entries: state.entries, conflicts: state.conflicts })
+    )
+  } catch (error) {
+    console.error('Error saving offline outbox:', error)
+  }
+  listeners.forEach(listener => listener(state))
+}
+
+export function getOutboxState(): OutboxState {
+  load()
+  return state
+}
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  load()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function send(operation: OutboxOperation): Promise<unknown> {
+  switch (operation.type) {
+    case 'createTrip':
+      return createTrip(operation.payload)
+    case 'joinTrip':
+      return joinTrip(operation.payload.tripId, operation.payload.booking)
+    case 'updateProfile':
+      return updateUserProfile(operation.payload)
+    case 'updateTrip':
+      return updateTrip(operation.payload.tripId, operation.payload.changes)
+    case 'deleteTrip':
+      return deleteTrip(operation.payload.tripId)
+    case 'cancelTrip':
+      return cancelTrip(operation.payload.tripId, operation.payload.data)
+    case 'leaveTrip':
+      return leaveTrip(operation.payload.tripId, operation.payload.data)
+  }
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+// Only failures where the request never reached the server are worth queueing
+function isConnectivityError(error: ApiError): boolean {
+  return error.kind === 'network' || (error.kind === 'timeout' && isOffline())
+}
+
+function enqueue(operation: OutboxOperation, label: string): OutboxEntry {
+  load()
+  const entry = {
+    ...operation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId: getCurrentUserId() ?? undefined,
+    label,
+    queuedAt: Date.now()
+  } as OutboxEntry
+  setState({ entries: [...state.entries, entry] })
+  return entry
+}
+
+// Send now if we can, otherwise park the write in the outbox. Any error other
+// than a connectivity failure is thrown as usual.
+export async function sendOrQueue<T>(operation: OutboxOperation, label: string): Promise<SendResult<T>> {
+  if (!runtimeConfig.features.offlineSupport) {
+    return { status: 'sent', result: (await send(operation)) as T }
+  }
+  if (isOffline()) {
+    return { status: 'queued', entry: enqueue(operation, label) }
+  }
+  try {
+    return { status: 'sent', result: (await send(operation)) as T }
+  } catch (error) {
+    const apiError = toApiError(error)
+    if (!isConnectivityError(apiError)) throw apiError
+    return { status: 'queued', entry: enqueue(operation, label) }
+  }
+}
+
+// Park a write to be sent on the next load, for when there is no time to send it now,
+// e.g. the page is closing. Returns null when offline support is off and nothing replays it.
+export function queueForReplay(operation: OutboxOperation, label: string): OutboxEntry | null {
+  if (!runtimeConfig.features.offlineSupport) return null
+  return enqueue(operation, label)
+}
+
+// Send queued writes oldest first. Stops at the first connectivity failure so
+// later writes don't overtake earlier ones.
+export async function replayOutbox() {
+  load()
+  // Nothing can be sent until we know whose writes these are
+  if (state.isReplaying || getCurrentUserId() === null) return
+  dropOtherUsersEntries()
+  if (state.entries.length === 0 || isOffline()) return
+  setState({ isReplaying: true })
+
+  let synced = 0
+  try {
+    while (state.entries.length > 0) {
+      const [entry] = state.entries
+      try {
+        await send(entry)
+        synced += 1
+        setState({ entries: state.entries.slice(1) })
+      } catch (error) {
+        const apiError = toApiError(error)
+        // Still offline, or signed out: keep everything for the next attempt
+        if (isConnectivityError(apiError) || apiError.recoveryAction === 'sign-in') break
+        setState({
+          entries: state.entries.slice(1),
+          conflicts: [...state.conflicts, { entry, message: apiError.message, code: apiError.code }]
+        })
+        showToast({
+          variant: 'error',
+          message: `${entry.label} couldn't be completed: ${apiError.message}`,
+          durationMs: 10000
+        })
+      }
+    }
+  } finally {
+    setState({ isReplaying: false })
+  }
+
+  if (synced > 0) {
+    showToast({
+      variant: 'success',
+      message: `Back online: synced ${synced} change${synced === 1 ? '' : 's'} made while offline.`
+    })
+  }
+  // Seat counts may have moved on while we were away, whether or not the replay succeeded
+  invalidateTripQueries()
+}
+
+export function dismissOutboxConflict(entryId: string) {
+  setState({ conflicts: state.conflicts.filter(conflict => conflict.entry.id !== entryId) })
+}
+
+// Queued writes belong to the signed in user, so they are dropped on sign out
+export function clearOutbox() {
+  load()
+  setState({ entries: [], conflicts: [] })
+}
+
+// Replays once now and again whenever the browser reports it is back online
+export function startOutboxSync(): () => void {
+  if (typeof window === 'undefined' || !runtimeConfig.features.offlineSupport) return () => undefined
+  const handleOnline = () => {
+    replayOutbox().catch(error => console.error('Outbox replay failed:', error))
+  }
+  // A page restored from the back/forward cache may have parked writes on the way out
+  const handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) handleOnline()
+  }
+  handleOnline()
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('pageshow', handlePageShow)
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('pageshow', handlePageShow)
+  }
+}
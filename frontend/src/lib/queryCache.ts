@@ -0,0 +1,258 @@
+import { API_ENDPOINTS, QUERY_CACHE } from '@/lib/constants'
+import { ApiError, isCancelledError, toApiError } from '@/lib/errors'
+
+// A small shared cache for GET-style requests. Every page reading the same
+// endpoint gets the same entry, concurrent reads share one request, and stale
+// data is shown immediately while a fresh copy loads in the background.
+
+export type QueryKey = string
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>
+
+export interface QueryState<T> {
+  data?: T
+  error?: ApiError
+  // 0 means never fetched or invalidated
+  updatedAt: number
+  isFetching: boolean
+}
+
+interface QueryEntry<T = unknown> {
+  state: QueryState<T>
+  fetcher?: QueryFetcher<T>
+  staleTimeMs: number
+  promise?: Promise<T>
+  controller?: AbortController
+  listeners: Set<() => void>
+}
+
+interface FetchQueryOptions {
+  // Ignore fresh data and any in-flight request
+  force?: boolean
+  staleTimeMs?: number
+}
+
+const entries = new Map<QueryKey, QueryEntry>()
+// Matchers for keys whose optimistic data a refetch must not replace yet
+const holds = new Set<{ match: QueryMatch }>()
+
+const isHeld = (key: QueryKey) => Array.from(holds).some(hold => matches(key, hold.match))
+
+// Build a stable key from an endpoint and its params, ignoring empty values
+export function queryKey(endpoint: string, params?: Record<string, unknown>): QueryKey {
+  if (!params) return endpoint
+  const cleaned = Object.keys(params)
+    .sort()
+    .filter(key => params[key] !== undefined && params[key] !== '')
+    .map(key => [key, params[key]])
+  return cleaned.length > 0 ? `${endpoint}?${JSON.stringify(cleaned)}` : endpoint
+}
+
+export const QUERY_KEYS = {
+  trips: () => queryKey(API_ENDPOINTS.TRIPS.LIST),
+  trip: (id: number) => queryKey(API_ENDPOINTS.TRIPS.GET(id)),
+  tripSearch: (params: object) => queryKey(API_ENDPOINTS.TRIPS.SEARCH, { ...params }),
+  tripRequests: (id: number) => queryKey(API_ENDPOINTS.TRIPS.REQUESTS(id))
+}
+
+function getEntry<T>(key: QueryKey): QueryEntry<T> {
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = {
+      state: { updatedAt: 0, isFetching: false },
+      staleTimeMs: QUERY_CACHE.STALE_TIME_MS,
+      listeners: new Set()
+    }
+    entries.set(key, entry)
+  }
+  return entry as QueryEntry<T>
+}
+
+function setState<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) {
+  entry.state = { ...entry.state, ...patch }
+  entry.listeners.forEach(listener => listener())
+}
+
+function isStale(entry: QueryEntry): boolean {
+  return Date.now() - entry.state.updatedAt >= entry.staleTimeMs
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return getEntry<T>(key).state
+}
+
+export function subscribeToQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key)
+  entry.listeners.add(listener)
+  listenForFocus()
+  return () => {
+    entry.listeners.delete(listener)
+    // Abort a request nobody is waiting for any more, e.g. a superseded search.
+    // Checked on the next tick so a quick remount keeps the request alive.
+    setTimeout(() => {
+      if (entry.listeners.size === 0 && entry.controller) {
+        entry.controller.abort()
+        entry.controller = undefined
+        entry.promise = undefined
+        setState(entry, { isFetching: false })
+      }
+    }, 0)
+  }
+}
+
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { force = false, staleTimeMs }: FetchQueryOptions = {}
+): Promise<T> {
+  const entry = getEntry<T>(key)
+  entry.fetcher = fetcher
+  if (staleTimeMs !== undefined) entry.staleTimeMs = staleTimeMs
+
+  if (!force) {
+    if (entry.promise) return entry.promise
+    if (entry.state.data !== undefined && !isStale(entry)) return Promise.resolve(entry.state.data)
+  }
+
+  // A forced refetch supersedes whatever is still in flight
+  entry.controller?.abort()
+  const controller = new AbortController()
+  entry.controller = controller
+  setState(entry, { isFetching: true })
+
+  const promise = fetcher(controller.signal)
+    .then(data => {
+      if (entry.controller === controller) {
+        // Held data stays on screen; the key is refetched once the hold is released
+        setState(entry, isHeld(key) && entry.state.data !== undefined
+          ? { isFetching: false, updatedAt: 0 }
+          : { data, error: undefined, updatedAt: Date.now(), isFetching: false })
+      }
+      return data
+    })
+    .catch(error => {
+      if (entry.controller === controller && !isCancelledError(error)) {
+        setState(entry, { error: toApiError(error), isFetching: false })
+      }
+      throw error
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = undefined
+        entry.controller = undefined
+      }
+    })
+
+  entry.promise = promise
+  return promise
+}
+
+// Write to the cache directly, e.g. after a mutation returns the updated record
+export function setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+  const entry = getEntry<T>(key)
+  const data = typeof updater === 'function'
+    ? (updater as (previous: T | undefined) => T)(entry.state.data)
+    : updater
+  setState(entry, { data, updatedAt: Math.max(entry.state.updatedAt, 1) })
+}
+
+type QueryMatch = string | ((key: QueryKey) => boolean)
+
+function matches(key: QueryKey, match: QueryMatch): boolean {
+  return typeof match === 'string' ? key.startsWith(match) : match(key)
+}
+
+export type QuerySnapshot = Map<QueryKey, unknown>
+
+// Capture the current data of matching entries so an optimistic change can be undone
+export function snapshotQueries(match: QueryMatch): QuerySnapshot {
+  const snapshot: QuerySnapshot = new Map()
+  entries.forEach((entry, key) => {
+    if (matches(key, match) && entry.state.data !== undefined) snapshot.set(key, entry.state.data)
+  })
+  return snapshot
+}
+
+export function restoreQueries(snapshot: QuerySnapshot) {
+  snapshot.forEach((data, key) => setQueryData(key, data))
+}
+
+// Rewrite the data of every matching entry that has some
+export function updateQueries(match: QueryMatch, updater: (data: unknown, key: QueryKey) => unknown) {
+  entries.forEach((entry, key) => {
+    if (matches(key, match) && entry.state.data !== undefined) {
+      setState(entry, { data: updater(entry.state.data, key) })
+    }
+  })
+}
+
+// Keep refetches from overwriting matching entries, e.g. while an optimistic change
+// waits out its undo window. Releasing refetches them so they catch up with the server.
+export function holdQueries(match: QueryMatch): () => void {
+  const hold = { match }
+  holds.add(hold)
+  return () => {
+    if (!holds.delete(hold)) return
+    invalidateQueries(match)
+  }
+}
+
+// Mark matching entries stale and refetch the ones a mounted component is reading
+export function invalidateQueries(match: QueryMatch) {
+  entries.forEach((entry, key) => {
+    if (!matches(key, match)) return
+    entry.state = { ...entry.state, updatedAt: 0 }
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher, { force: true }).catch(() => undefined)
+    }
+  })
+}
+
+// Trip lists, trip details, search results and "my trips" all change when any trip does
+export function isTripQuery(key: QueryKey): boolean {
+  return key.startsWith(API_ENDPOINTS.TRIPS.LIST) || key.startsWith('/users/trips')
+}
+
+// Join requests live under /trips too, but hold TripMatch records rather than trips
+export function isTripRequestsQuery(key: QueryKey): boolean {
+  return /^\/trips\/\d+\/requests/.test(key)
+}
+
+export function invalidateTripQueries() {
+  invalidateQueries(isTripQuery)
+}
+
+// Drop everything, e.g. when a different user signs in. Entries that are still
+// being read are emptied in place and refetched for the new user.
+export function clearQueryCache() {
+  entries.forEach((entry, key) => {
+    entry.controller?.abort()
+    entry.promise = undefined
+    entry.controller = undefined
+    if (entry.listeners.size === 0 || !entry.fetcher) {
+      entries.delete(key)
+      return
+    }
+    setState(entry, { data: undefined, error: undefined, updatedAt: 0, isFetching: false })
+    fetchQuery(key, entry.fetcher, { force: true }).catch(() => undefined)
+  })
+}
+
+function refetchStaleQueries() {
+  entries.forEach((entry, key) => {
+    if (entry.listeners.size > 0 && entry.fetcher && isStale(entry)) {
+      fetchQuery(key, entry.fetcher).catch(() => undefined)
+    }
+  })
+}
+
+let isListeningForFocus = false
+
+// Coming back to the tab is a good moment to catch up on anything that changed
+function listenForFocus() {
+  if (isListeningForFocus || typeof window === 'undefined') return
+  isListeningForFocus = true
+  window.addEventListener('focus', refetchStaleQueries)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') refetchStaleQueries()
+  })
+}
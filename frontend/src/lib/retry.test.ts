@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ApiError, ApiErrorKind } from '@/lib/errors'
+import { getBackoffDelay, shouldRetry, sleep } from '@/lib/retry'
+
+const retry = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 8000 }
+
+const errorOf = (kind: ApiErrorKind, status?: number) =>
+  new ApiError({ kind, status, message: 'Request failed' })
+
+describe('shouldRetry', () => {
+  it('retries idempotent methods on network errors, timeouts and gateway errors', () => {
+    expect(shouldRetry(errorOf('network'), { method: 'get', attempt: 0 }, retry)).toBe(true)
+    expect(shouldRetry(errorOf('timeout'), { method: 'PUT', attempt: 0 }, retry)).toBe(true)
+    expect(shouldRetry(errorOf('server', 503), { method: 'delete', attempt: 2 }, retry)).toBe(true)
+    expect(shouldRetry(errorOf('network'), { attempt: 0 }, retry)).toBe(true)
+  })
+
+  it('does not retry errors the server meant', () => {
+    expect(shouldRetry(errorOf('server', 500), { method: 'get', attempt: 0 }, retry)).toBe(false)
+    expect(shouldRetry(errorOf('not-found', 404), { method: 'get', attempt: 0 }, retry)).toBe(false)
+  })
+
+  it('leaves POSTs alone unless the request opts in', () => {
+    expect(shouldRetry(errorOf('network'), { method: 'post', attempt: 0 }, retry)).toBe(false)
+    expect(shouldRetry(errorOf('network'), { method: 'post', attempt: 0, retryable: true }, retry)).toBe(true)
+  })
+
+  it('lets a request opt out even when its method is idempotent', () => {
+    expect(shouldRetry(errorOf('network'), { method: 'get', attempt: 0, retryable: false }, retry)).toBe(false)
+  })
+
+  it('stops after maxRetries attempts', () => {
+    expect(shouldRetry(errorOf('network'), { method: 'get', attempt: 3 }, retry)).toBe(false)
+  })
+})
+
+describe('getBackoffDelay', () => {
+  it('stays between half and all of the doubled delay', () => {
+    expect(getBackoffDelay(0, retry, () => 0)).toBe(500)
+    expect(getBackoffDelay(0, retry, () => 1)).toBe(1000)
+    expect(getBackoffDelay(2, retry, () => 0)).toBe(2000)
+    expect(getBackoffDelay(2, retry, () => 1)).toBe(4000)
+  })
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(getBackoffDelay(10, retry, () => 0)).toBe(4000)
+    expect(getBackoffDelay(10, retry, () => 1)).toBe(8000)
+  })
+
+  it('spreads retries with jitter', () => {
+    expect(getBackoffDelay(1, retry, () => 0.5)).toBe(1500)
+    for (let i = 0; i < 20; i++) {
+      const delay = getBackoffDelay(1, retry)
+      expect(delay).toBeGreaterThanOrEqual(1000)
+      expect(delay).toBeLessThanOrEqual(2000)
+    }
+  })
+})
+
+describe('sleep', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers()
+    const resolved = vi.fn()
+    sleep(1000).then(resolved)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(resolved).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(resolved).toHaveBeenCalled()
+  })
+
+  it('resolves as soon as the signal aborts', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const resolved = vi.fn()
+    sleep(60_000, controller.signal).then(resolved)
+
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(resolved).toHaveBeenCalled()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('resolves right away for an already aborted signal', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(sleep(60_000, controller.signal)).resolves.toBeUndefined()
+  })
+})
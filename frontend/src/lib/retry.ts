@@ -0,0 +1,52 @@
+import { RetryConfig } from '@/lib/config'
+import { ApiError } from '@/lib/errors'
+
+// Methods that are safe to send twice; POSTs must opt in explicitly
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete']
+
+// Gateway errors are what Render returns while the instance is still booting
+const RETRYABLE_STATUSES = [502, 503, 504]
+
+export function isIdempotentMethod(method: string | undefined): boolean {
+  return IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase())
+}
+
+export function isRetryableError(error: ApiError): boolean {
+  if (error.kind === 'network' || error.kind === 'timeout') return true
+  return error.status !== undefined && RETRYABLE_STATUSES.includes(error.status)
+}
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half is random,
+// so clients that failed together don't all retry at the same instant
+export function getBackoffDelay(
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: Pick<RetryConfig, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(ceiling / 2 + random() * (ceiling / 2))
+}
+
+export function shouldRetry(
+  error: ApiError,
+  { method, attempt, retryable }: { method?: string; attempt: number; retryable?: boolean },
+  { maxRetries }: Pick<RetryConfig, 'maxRetries'>
+): boolean {
+  if (attempt >= maxRetries) return false
+  if (!(retryable ?? isIdempotentMethod(method))) return false
+  return isRetryableError(error)
+}
+
+// Resolves early if the signal aborts, so a cancelled request doesn't sit out its backoff
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve()
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done)
+  })
+}
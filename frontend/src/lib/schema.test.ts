@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  fromTripPayload,
+  parseTrip,
+  parseTripMatch,
+  parseTrips,
+  SchemaError,
+  toSearchPayload,
+  toTripPayload,
+  toTripWire
+} from '@/lib/schema'
+
+const wireTrip = {
+  id: 7,
+  driver_id: 1,
+  from_location: 'Pune',
+  to_location: 'Mumbai Airport',
+  departure_time: '2030-05-01T06:30:00.000Z',
+  max_passengers: 3,
+  current_passengers: 1,
+  price_per_person: 450,
+  description: null,
+  status: 'active',
+  created_at: '2030-04-01T00:00:00.000Z',
+  updated_at: '2030-04-01T00:00:00.000Z',
+  user_role: 'driver',
+  verified_passengers_only: false
+}
+
+function schemaErrorFrom(parse: () => unknown): SchemaError {
+  try {
+    parse()
+  } catch (error) {
+    if (error instanceof SchemaError) return error
+    throw error
+  }
+  throw new Error('Expected a SchemaError')
+}
+
+describe('parseTrip', () => {
+  it('maps snake_case fields onto the Trip type', () => {
+    expect(parseTrip(wireTrip)).toEqual({
+      id: 7,
+      driverId: 1,
+      from: 'Pune',
+      to: 'Mumbai Airport',
+      departureTime: '2030-05-01T06:30:00.000Z',
+      maxPassengers: 3,
+      currentPassengers: 1,
+      pricePerPerson: 450,
+      status: 'active',
+      createdAt: '2030-04-01T00:00:00.000Z',
+      updatedAt: '2030-04-01T00:00:00.000Z',
+      userRole: 'driver',
+      verifiedPassengersOnly: false
+    })
+  })
+
+  it('drops fields the schema does not know about', () => {
+    expect(parseTrip({ ...wireTrip, internal_notes: 'x' })).not.toHaveProperty('internal_notes')
+  })
+
+  it('checks embedded drivers and passengers', () => {
+    const error = schemaErrorFrom(() => parseTrip({ ...wireTrip, passengers: [{ id: 'two', name: 'Rohan' }] }))
+
+    expect(error.path).toBe('trip.passengers[0].id')
+    expect(error.expected).toBe('an integer')
+  })
+
+  it('accepts drivers and passengers without contact details or timestamps', () => {
+    const trip = parseTrip({
+      ...wireTrip,
+      driver: { id: 1, name: 'Asha', isVerified: true },
+      passengers: [{ id: 2, name: 'Rohan', phone: null }]
+    })
+
+    expect(trip.driver).toEqual({ id: 1, name: 'Asha', isVerified: true })
+    expect(trip.passengers).toEqual([{ id: 2, name: 'Rohan' }])
+  })
+
+  it('maps group bookings and sends them back in snake_case', () => {
+    const trip = parseTrip({ ...wireTrip, bookings: [{ passenger_id: 2, seats: 2, companions: ['Zoya Khan'] }] })
+
+    expect(trip.bookings).toEqual([{ passengerId: 2, seats: 2, companions: ['Zoya Khan'] }])
+    expect(toTripWire(trip).bookings).toEqual([{ passenger_id: 2, seats: 2, companions: ['Zoya Khan'] }])
+  })
+
+  it("maps the viewer's waitlist entry and rejects an unknown status", () => {
+    const offer = { status: 'offered', seats: 1, offer_expires_at: '2025-01-10T09:15:00.000Z' }
+    const trip = parseTrip({ ...wireTrip, seats_on_hold: 1, waitlist: offer })
+
+    expect(trip.waitlist).toEqual({ status: 'offered', seats: 1, offerExpiresAt: '2025-01-10T09:15:00.000Z' })
+    expect(toTripWire(trip).waitlist).toEqual(offer)
+    expect(schemaErrorFrom(() => parseTrip({ ...wireTrip, waitlist: { ...offer, status: 'expired' } })).path)
+      .toBe('trip.waitlist.status')
+  })
+
+  it("maps the driver's cancellation", () => {
+    const trip = parseTrip({
+      ...wireTrip,
+      status: 'cancelled',
+      cancelled_at: '2025-01-09T18:00:00.000Z',
+      cancellation_reason: 'weather',
+      cancellation_note: null
+    })
+
+    expect(trip).toMatchObject({ status: 'cancelled', cancelledAt: '2025-01-09T18:00:00.000Z', cancellationReason: 'weather' })
+    expect(trip).not.toHaveProperty('cancellationNote')
+  })
+
+  it.each([
+    ['price_per_person', '450', 'a number'],
+    ['departure_time', 'tomorrow morning', 'a date'],
+    ['status', 'archived', 'one of active, in_progress, completed, cancelled'],
+    ['from_location', undefined, 'a string']
+  ])('rejects a malformed %s', (field, value, expected) => {
+    const error = schemaErrorFrom(() => parseTrip({ ...wireTrip, [field]: value }))
+
+    expect(error.path).toBe(`trip.${field}`)
+    expect(error.expected).toBe(expected)
+    expect(error.message).toContain(`trip.${field}`)
+  })
+})
+
+describe('parseTrips', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('leaves out a malformed trip and logs which one it was', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(parseTrips([wireTrip, { ...wireTrip, id: null }]).map(trip => trip.id)).toEqual([7])
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('trips[1].id'))
+  })
+
+  it('fails when no trip in the list parses', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(schemaErrorFrom(() => parseTrips([{ ...wireTrip, id: null }])).path).toBe('trips[0].id')
+  })
+
+  it('rejects anything but a list', () => {
+    expect(() => parseTrips({ trips: [] })).toThrow(SchemaError)
+  })
+})
+
+describe('parseTripMatch', () => {
+  const wireMatch = {
+    id: 3,
+    trip_id: 7,
+    passenger_id: 2,
+    status: 'pending',
+    note: null,
+    joined_at: '2030-04-02T10:00:00.000Z',
+    responded_at: null
+  }
+
+  it('maps a join request and leaves out empty fields', () => {
+    expect(parseTripMatch(wireMatch)).toEqual({
+      id: 3,
+      tripId: 7,
+      passengerId: 2,
+      status: 'pending',
+      joinedAt: '2030-04-02T10:00:00.000Z'
+    })
+  })
+
+  it('rejects an unknown request status', () => {
+    const error = schemaErrorFrom(() => parseTripMatch({ ...wireMatch, status: 'maybe' }))
+
+    expect(error.path).toBe('request.status')
+  })
+})
+
+describe('payloads', () => {
+  it('sends trip changes in snake_case and leaves out unset fields', () => {
+    expect(toTripPayload({ from: 'Pune', pricePerPerson: 500, description: undefined })).toEqual({
+      from_location: 'Pune',
+      price_per_person: 500
+    })
+  })
+
+  it('sends search criteria in snake_case', () => {
+    expect(toSearchPayload({ from: 'Pune', to: 'Goa', departureDate: '2030-05-01', maxPrice: 800 })).toEqual({
+      from_location: 'Pune',
+      to_location: 'Goa',
+      departure_date: '2030-05-01',
+      max_price: 800
+    })
+  })
+
+  it('reads back what it writes', () => {
+    const trip = parseTrip(wireTrip)
+
+    expect(parseTrip(toTripWire(trip))).toEqual(trip)
+    expect(fromTripPayload(toTripPayload({ to: 'Goa', maxPassengers: 2 }))).toEqual({ to: 'Goa', maxPassengers: 2 })
+  })
+})
@@ -0,0 +1,300 @@
+import {
+  CreateTripData,
+  SearchTripsData,
+  Trip,
+  TripBooking,
+  TripMatch,
+  TripCancellationReason,
+  TripMatchStatus,
+  TripStatus,
+  UpdateTripData,
+  WaitlistEntry
+} from '@/types/trip'
+import { TripMember, UserRole } from '@/types/user'
+
+// The API boundary for trips. The backend speaks snake_case (from_location,
+// price_per_person) and the app speaks camelCase; every request is mapped and
+// every response is checked here, so components only ever see the types in
+// types/trip and a malformed response fails loudly instead of rendering NaN.
+
+// Thrown when a response doesn't match its schema; toApiError turns it into
+// an ApiError of kind 'invalid-response'
+export class SchemaError extends Error {
+  readonly path: string
+  readonly expected: string
+  readonly received: unknown
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Invalid API response: expected ${path} to be ${expected}, got ${describe(received)}`)
+    this.name = 'SchemaError'
+    this.path = path
+    this.expected = expected
+    this.received = received
+  }
+}
+
+type Parser<T> = (value: unknown, path: string) => T
+
+// Each app field names its wire field and how to check it; optional fields use optional()
+type ObjectSchema<T> = { [K in keyof T]-?: [wireName: string, parse: Parser<T[K]>] }
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`
+  return typeof value === 'object' ? 'an object' : String(value)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const check = <T>(expected: string, isValid: (value: unknown) => value is T): Parser<T> => (value, path) => {
+  if (!isValid(value)) throw new SchemaError(path, expected, value)
+  return value
+}
+
+const string = check('a string', (value): value is string => typeof value === 'string')
+const boolean = check('a boolean', (value): value is boolean => typeof value === 'boolean')
+const number = check('a number', (value): value is number => typeof value === 'number' && Number.isFinite(value))
+const integer = check('an integer', (value): value is number => Number.isInteger(value))
+const timestamp = check(
+  'a date',
+  (value): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value))
+)
+
+const oneOf = <T extends string>(...options: T[]) =>
+  check(`one of ${options.join(', ')}`, (value): value is T => options.includes(value as T))
+
+// The backend sends null for empty columns; the app uses undefined
+const optional = <T>(parse: Parser<T>): Parser<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : parse(value, path)
+
+const arrayOf = <T>(parse: Parser<T>): Parser<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'an array', value)
+  return value.map((item, index) => parse(item, `${path}[${index}]`))
+}
+
+function object<T>(schema: ObjectSchema<T>): Parser<T> {
+  return (value, path) => {
+    if (!isRecord(value)) throw new SchemaError(path, 'an object', value)
+    const result: Partial<T> = {}
+    for (const key of Object.keys(schema) as (keyof T)[]) {
+      const [wireName, parse] = schema[key]
+      const parsed = parse(value[wireName], `${path}.${wireName}`)
+      if (parsed !== undefined) result[key] = parsed
+    }
+    return result as T
+  }
+}
+
+// Rename the keys of a plain object, dropping undefined values and keys not in the map
+function renameKeys(data: object, names: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key, value]) => value !== undefined && key in names)
+      .map(([key, value]) => [names[key], value])
+  )
+}
+
+const wireNames = (schema: Record<string, [string, unknown]>): Record<string, string> =>
+  Object.fromEntries(Object.entries(schema).map(([key, [wireName]]) => [key, wireName]))
+
+const invert = (names: Record<string, string>) =>
+  Object.fromEntries(Object.entries(names).map(([key, value]) => [value, key]))
+
+// Users are camelCase on the wire already. Drivers and passengers embedded in trips
+// may come without the contact details and timestamps the viewer isn't shown
+const memberSchema: ObjectSchema<TripMember> = {
+  id: ['id', integer],
+  name: ['name', string],
+  email: ['email', optional(string)],
+  phone: ['phone', optional(string)],
+  profileImage: ['profileImage', optional(string)],
+  isVerified: ['isVerified', optional(boolean)],
+  isEmailVerified: ['isEmailVerified', optional(boolean)],
+  role: ['role', optional(oneOf(...Object.values(UserRole)))],
+  createdAt: ['createdAt', optional(timestamp)],
+  updatedAt: ['updatedAt', optional(timestamp)]
+}
+
+const parseMember: Parser<TripMember> = object(memberSchema)
+
+const tripStatus = oneOf<TripStatus>('active', 'in_progress', 'completed', 'cancelled')
+
+const cancellationReason = oneOf<TripCancellationReason>(
+  'vehicle_issue',
+  'schedule_change',
+  'not_enough_passengers',
+  'weather',
+  'emergency',
+  'other'
+)
+
+const matchStatus = oneOf<TripMatchStatus>('pending', 'confirmed', 'declined', 'cancelled')
+
+const bookingSchema: ObjectSchema<TripBooking> = {
+  passengerId: ['passenger_id', integer],
+  seats: ['seats', integer],
+  companions: ['companions', arrayOf(string)]
+}
+
+const parseBooking = object(bookingSchema)
+
+const waitlistSchema: ObjectSchema<WaitlistEntry> = {
+  status: ['status', oneOf('waiting', 'offered')],
+  seats: ['seats', integer],
+  position: ['position', optional(integer)],
+  offerExpiresAt: ['offer_expires_at', optional(timestamp)]
+}
+
+const parseWaitlistEntry = object(waitlistSchema)
+
+const tripSchema: ObjectSchema<Trip> = {
+  id: ['id', integer],
+  driverId: ['driver_id', integer],
+  from: ['from_location', string],
+  to: ['to_location', string],
+  departureTime: ['departure_time', timestamp],
+  maxPassengers: ['max_passengers', integer],
+  currentPassengers: ['current_passengers', integer],
+  pricePerPerson: ['price_per_person', number],
+  description: ['description', optional(string)],
+  status: ['status', tripStatus],
+  createdAt: ['created_at', timestamp],
+  updatedAt: ['updated_at', timestamp],
+  driver: ['driver', optional(parseMember)],
+  passengers: ['passengers', optional(arrayOf(parseMember))],
+  userRole: ['user_role', optional(oneOf('driver', 'passenger', 'none'))],
+  verifiedPassengersOnly: ['verified_passengers_only', optional(boolean)],
+  requiresApproval: ['requires_approval', optional(boolean)],
+  pendingRequests: ['pending_requests', optional(integer)],
+  requestStatus: ['request_status', optional(matchStatus)],
+  seatsBooked: ['seats_booked', optional(integer)],
+  bookings: ['bookings', optional(arrayOf(parseBooking))],
+  seatsOnHold: ['seats_on_hold', optional(integer)],
+  waitlistLength: ['waitlist_length', optional(integer)],
+  waitlist: ['waitlist', optional(parseWaitlistEntry)],
+  startedAt: ['started_at', optional(timestamp)],
+  completedAt: ['completed_at', optional(timestamp)],
+  cancelledAt: ['cancelled_at', optional(timestamp)],
+  cancellationReason: ['cancellation_reason', optional(cancellationReason)],
+  cancellationNote: ['cancellation_note', optional(string)]
+}
+
+const TRIP_WIRE_NAMES = wireNames(tripSchema)
+
+// Trip fields the client may send when creating or editing a trip
+const TRIP_INPUT_WIRE_NAMES: { [K in keyof CreateTripData]-?: string } = {
+  from: TRIP_WIRE_NAMES.from,
+  to: TRIP_WIRE_NAMES.to,
+  departureTime: TRIP_WIRE_NAMES.departureTime,
+  maxPassengers: TRIP_WIRE_NAMES.maxPassengers,
+  pricePerPerson: TRIP_WIRE_NAMES.pricePerPerson,
+  description: TRIP_WIRE_NAMES.description,
+  verifiedPassengersOnly: TRIP_WIRE_NAMES.verifiedPassengersOnly,
+  requiresApproval: TRIP_WIRE_NAMES.requiresApproval
+}
+
+const SEARCH_WIRE_NAMES: { [K in keyof SearchTripsData]-?: string } = {
+  from: 'from_location',
+  to: 'to_location',
+  departureDate: 'departure_date',
+  maxPrice: 'max_price',
+  limit: 'limit',
+  offset: 'offset'
+}
+
+// Validation errors name the wire fields; forms want the app's, e.g. from_location -> from
+export const TRIP_FIELD_NAMES: Record<string, string> = invert(TRIP_WIRE_NAMES)
+
+const parseTripObject = object(tripSchema)
+
+const tripMatchSchema: ObjectSchema<TripMatch> = {
+  id: ['id', integer],
+  tripId: ['trip_id', integer],
+  passengerId: ['passenger_id', integer],
+  status: ['status', matchStatus],
+  note: ['note', optional(string)],
+  seats: ['seats', optional(integer)],
+  companions: ['companions', optional(arrayOf(string))],
+  joinedAt: ['joined_at', timestamp],
+  respondedAt: ['responded_at', optional(timestamp)],
+  trip: ['trip', optional(parseTripObject)],
+  passenger: ['passenger', optional(parseMember)]
+}
+
+const TRIP_MATCH_WIRE_NAMES = wireNames(tripMatchSchema)
+
+const parseTripMatchObject = object(tripMatchSchema)
+
+export function parseTrip(data: unknown): Trip {
+  return parseTripObject(data, 'trip')
+}
+
+// One malformed trip shouldn't hide the rest of the list, so it is logged and left
+// out; the list only fails when nothing in it parses
+export function parseTrips(data: unknown): Trip[] {
+  if (!Array.isArray(data)) throw new SchemaError('trips', 'an array', data)
+  const trips: Trip[] = []
+  let firstError: unknown
+  data.forEach((item, index) => {
+    try {
+      trips.push(parseTripObject(item, `trips[${index}]`))
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error
+      console.error(error.message)
+      firstError ??= error
+    }
+  })
+  if (trips.length === 0 && firstError) throw firstError
+  return trips
+}
+
+export function parseWaitlist(data: unknown): WaitlistEntry {
+  return parseWaitlistEntry(data, 'waitlist')
+}
+
+export function parseTripMatch(data: unknown): TripMatch {
+  return parseTripMatchObject(data, 'request')
+}
+
+export function parseTripMatches(data: unknown): TripMatch[] {
+  return arrayOf(parseTripMatchObject)(data, 'requests')
+}
+
+export function toTripPayload(data: CreateTripData | UpdateTripData): Record<string, unknown> {
+  return renameKeys(data, TRIP_INPUT_WIRE_NAMES)
+}
+
+export function toSearchPayload(data: SearchTripsData): Record<string, unknown> {
+  return renameKeys(data, SEARCH_WIRE_NAMES)
+}
+
+// The other side of the boundary, for the mock API in src/mocks
+export function fromTripPayload(body: Record<string, unknown>): UpdateTripData {
+  return renameKeys(body, invert(TRIP_INPUT_WIRE_NAMES)) as UpdateTripData
+}
+
+export function fromSearchPayload(body: Record<string, unknown>): SearchTripsData {
+  return renameKeys(body, invert(SEARCH_WIRE_NAMES)) as SearchTripsData
+}
+
+const BOOKING_WIRE_NAMES = wireNames(bookingSchema)
+const WAITLIST_WIRE_NAMES = wireNames(waitlistSchema)
+
+export function toTripWire(trip: Trip): Record<string, unknown> {
+  return {
+    ...renameKeys(trip, TRIP_WIRE_NAMES),
+    ...(trip.bookings && { bookings: trip.bookings.map(booking => renameKeys(booking, BOOKING_WIRE_NAMES)) }),
+    ...(trip.waitlist && { waitlist: toWaitlistWire(trip.waitlist) })
+  }
+}
+
+export function toWaitlistWire(entry: WaitlistEntry): Record<string, unknown> {
+  return renameKeys(entry, WAITLIST_WIRE_NAMES)
+}
+
+export function toTripMatchWire(match: TripMatch): Record<string, unknown> {
+  const wire = renameKeys(match, TRIP_MATCH_WIRE_NAMES)
+  return match.trip ? { ...wire, trip: toTripWire(match.trip) } : wire
+}
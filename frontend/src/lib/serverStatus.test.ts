@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  getServerStatus,
+  markServerReady,
+  markServerUnreachable,
+  resetServerStatus,
+  subscribeToServerStatus,
+  trackPendingRequest
+} from '@/lib/serverStatus'
+
+describe('server status', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    resetServerStatus()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts unknown and does not wake for a quick request', () => {
+    const stop = trackPendingRequest(3000)
+    vi.advanceTimersByTime(2999)
+    stop()
+    vi.advanceTimersByTime(10_000)
+
+    expect(getServerStatus().status).toBe('unknown')
+  })
+
+  it('goes from waking to ready once a slow request gets a response', () => {
+    const seen: string[] = []
+    subscribeToServerStatus(({ status }) => seen.push(status))
+
+    const stop = trackPendingRequest(3000)
+    vi.advanceTimersByTime(3000)
+    expect(getServerStatus().status).toBe('waking')
+
+    stop()
+    markServerReady()
+
+    expect(seen).toEqual(['waking', 'ready'])
+  })
+
+  it('goes from waking to unreachable when the retries run out', () => {
+    const stop = trackPendingRequest(3000)
+    vi.advanceTimersByTime(3000)
+    stop()
+    markServerUnreachable()
+
+    expect(getServerStatus().status).toBe('unreachable')
+  })
+
+  it('records when the current status began', () => {
+    vi.setSystemTime(new Date('2030-05-01T06:00:00.000Z'))
+    trackPendingRequest(3000)
+    vi.advanceTimersByTime(3000)
+
+    expect(getServerStatus().since).toBe(new Date('2030-05-01T06:00:03.000Z').getTime())
+  })
+
+  it('does not stay waking when the slow request is cancelled', () => {
+    markServerReady()
+    const stop = trackPendingRequest(3000)
+    vi.advanceTimersByTime(3000)
+    expect(getServerStatus().status).toBe('waking')
+
+    stop(true)
+
+    expect(getServerStatus().status).toBe('ready')
+  })
+
+  it('keeps waking while another slow request is still pending', () => {
+    const stopFirst = trackPendingRequest(3000)
+    const stopSecond = trackPendingRequest(3000)
+    vi.advanceTimersByTime(3000)
+
+    stopFirst(true)
+    expect(getServerStatus().status).toBe('waking')
+
+    stopSecond(true)
+    expect(getServerStatus().status).toBe('unknown')
+  })
+
+  it('stops notifying after unsubscribing', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeToServerStatus(listener)
+    unsubscribe()
+
+    markServerReady()
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
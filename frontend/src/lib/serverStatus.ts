@@ -0,0 +1,77 @@
+// Tracks whether the backend is awake. The free Render instance sleeps when idle,
+// so the first request after a quiet period can hang for most of a minute.
+
+export type ServerStatus = 'unknown' | 'waking' | 'ready' | 'unreachable'
+
+export interface ServerStatusState {
+  status: ServerStatus
+  // When the current status began, in ms since epoch
+  since: number
+}
+
+type ServerStatusListener = (state: ServerStatusState) => void
+
+let state: ServerStatusState = { status: 'unknown', since: Date.now() }
+const listeners = new Set<ServerStatusListener>()
+// Requests that have passed the cold-start threshold without settling
+let slowRequests = 0
+let statusBeforeWaking: ServerStatus = 'unknown'
+
+function setStatus(status: ServerStatus) {
+  if (state.status === status) return
+  state = { status, since: Date.now() }
+  listeners.forEach(listener => listener(state))
+}
+
+export function getServerStatus(): ServerStatusState {
+  return state
+}
+
+export function subscribeToServerStatus(listener: ServerStatusListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Call when a request starts; returns a function to call once it settles.
+// If it is still pending after thresholdMs we assume the server is cold-starting.
+// A cancelled request never finds out whether the server woke up, so pass abandoned
+// and the status goes back to what it was unless another slow request is still waiting.
+export function trackPendingRequest(thresholdMs: number): (abandoned?: boolean) => void {
+  let isSlow = false
+  const timer = setTimeout(() => {
+    isSlow = true
+    slowRequests += 1
+    if (state.status !== 'waking') statusBeforeWaking = state.status
+    setStatus('waking')
+  }, thresholdMs)
+
+  return (abandoned = false) => {
+    clearTimeout(timer)
+    if (isSlow) {
+      isSlow = false
+      slowRequests -= 1
+    }
+    if (abandoned && slowRequests === 0 && state.status === 'waking') {
+      setStatus(statusBeforeWaking)
+    }
+  }
+}
+
+// Any HTTP response, even an error status, proves the server is up
+export function markServerReady() {
+  setStatus('ready')
+}
+
+export function markServerUnreachable() {
+  setStatus('unreachable')
+}
+
+// Only meant for tests
+export function resetServerStatus() {
+  state = { status: 'unknown', since: Date.now() }
+  listeners.clear()
+  slowRequests = 0
+  statusBeforeWaking = 'unknown'
+}
@@ -0,0 +1,23 @@
+import { runtimeConfig } from '@/lib/config'
+import { OFFLINE } from '@/lib/constants'
+
+function isSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+// The worker needs the API origin to know which responses are trips worth caching
+export async function registerServiceWorker() {
+  if (!isSupported() || !runtimeConfig.features.offlineSupport) return
+  try {
+    const url = `${OFFLINE.SERVICE_WORKER_URL}?api=${encodeURIComponent(runtimeConfig.apiBaseUrl)}`
+    await navigator.serviceWorker.register(url)
+  } catch (error) {
+    console.error('Service worker registration failed:', error)
+  }
+}
+
+// Cached trip responses belong to the signed in user, so drop them on sign out
+export function clearOfflineApiCache() {
+  if (!isSupported()) return
+  navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_API_CACHE' })
+}
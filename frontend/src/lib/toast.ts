@@ -0,0 +1,63 @@
+import { TOAST } from '@/lib/constants'
+
+export type ToastVariant = 'success' | 'error' | 'info'
+
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
+export interface Toast {
+  id: number
+  message: string
+  variant: ToastVariant
+  action?: ToastAction
+  durationMs: number
+}
+
+type ToastListener = (toasts: Toast[]) => void
+
+let toasts: Toast[] = []
+let nextId = 1
+const timers = new Map<number, ReturnType<typeof setTimeout>>()
+const listeners = new Set<ToastListener>()
+
+function emit() {
+  listeners.forEach(listener => listener(toasts))
+}
+
+export function getToasts(): Toast[] {
+  return toasts
+}
+
+export function subscribeToToasts(listener: ToastListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function dismissToast(id: number) {
+  clearTimeout(timers.get(id))
+  timers.delete(id)
+  toasts = toasts.filter(toast => toast.id !== id)
+  emit()
+}
+
+export function showToast({
+  message,
+  variant = 'info',
+  action,
+  durationMs = TOAST.DEFAULT_DURATION_MS
+}: {
+  message: string
+  variant?: ToastVariant
+  action?: ToastAction
+  durationMs?: number
+}): number {
+  const id = nextId++
+  toasts = [...toasts, { id, message, variant, action, durationMs }]
+  timers.set(id, setTimeout(() => dismissToast(id), durationMs))
+  emit()
+  return id
+}
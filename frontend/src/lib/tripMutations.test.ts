@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTrips } from '@/lib/api'
+import { runtimeConfig } from '@/lib/config'
+import { TOAST } from '@/lib/constants'
+import { clearOutbox, getOutboxState } from '@/lib/outbox'
+import { fetchQuery, getQueryState, QUERY_KEYS, setQueryData } from '@/lib/queryCache'
+import {
+  deleteTripOptimistically,
+  joinTripOptimistically,
+  leaveTripOptimistically,
+  updateTripOptimistically
+} from '@/lib/tripMutations'
+import { getMockTrip, mockApi, signInAs } from '@/test/render'
+import { Trip } from '@/types/trip'
+
+const cachedTrip = (key: string, tripId: number) => {
+  const data = getQueryState<Trip[] | Trip>(key).data
+  return Array.isArray(data) ? data.find(trip => trip.id === tripId) : data
+}
+
+describe('optimistic trip mutations', () => {
+  it('rolls back only the failed trip when mutations overlap', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('rohan@example.com')
+    mockApi().setScenario('full-trip')
+    const joined = getMockTrip(1, 'rohan@example.com')
+    const full = getMockTrip(2, 'rohan@example.com')
+    setQueryData(QUERY_KEYS.trips(), [joined, full])
+    setQueryData(QUERY_KEYS.trip(1), joined)
+
+    const joining = joinTripOptimistically(full)
+    // Held for the undo window, so it is still applied when the join fails
+    leaveTripOptimistically(joined, { reason: 'plans_changed' })
+
+    await expect(joining).resolves.toMatchObject({ status: 'failed' })
+
+    expect(cachedTrip(QUERY_KEYS.trips(), 2)).toMatchObject({ currentPassengers: 0, userRole: 'none' })
+    expect(cachedTrip(QUERY_KEYS.trips(), 1)).toMatchObject({ userRole: 'none' })
+    expect(cachedTrip(QUERY_KEYS.trip(1), 1)).toMatchObject({ userRole: 'none' })
+    expect(getQueryState<Trip[]>(QUERY_KEYS.trips()).data?.map(trip => trip.id)).toEqual([1, 2])
+  })
+
+  it('puts a removed trip back where it was', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    mockApi().setScenario('server-down')
+    const trips = [getMockTrip(1, 'asha@example.com'), getMockTrip(2, 'asha@example.com')]
+    setQueryData(QUERY_KEYS.trips(), trips)
+
+    const deleting = deleteTripOptimistically(trips[0])
+    expect(getQueryState<Trip[]>(QUERY_KEYS.trips()).data?.map(trip => trip.id)).toEqual([2])
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    await expect(deleting).resolves.toMatchObject({ status: 'failed' })
+    expect(getQueryState<Trip[]>(QUERY_KEYS.trips()).data?.map(trip => trip.id)).toEqual([1, 2])
+  })
+})
+
+describe('undo window', () => {
+  const offlineSupport = runtimeConfig.features.offlineSupport
+
+  beforeEach(() => {
+    runtimeConfig.features.offlineSupport = true
+  })
+
+  afterEach(() => {
+    runtimeConfig.features.offlineSupport = offlineSupport
+    clearOutbox()
+  })
+
+  it('keeps the optimistic trip when a refetch lands before the change is sent', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    signInAs('asha@example.com')
+    await fetchQuery(QUERY_KEYS.trips(), getTrips)
+    const trip = getMockTrip(2, 'asha@example.com')
+
+    const saving = updateTripOptimistically(trip, { pricePerPerson: 350 })
+    await fetchQuery(QUERY_KEYS.trips(), getTrips, { force: true })
+
+    expect(cachedTrip(QUERY_KEYS.trips(), 2)).toMatchObject({ pricePerPerson: 350 })
+
+    await vi.advanceTimersByTimeAsync(TOAST.UNDO_WINDOW_MS)
+    await expect(saving).resolves.toMatchObject({ status: 'committed' })
+  })
+
+  it('parks a change still waiting out its undo window when the page closes', async () => {
+    signInAs('asha@example.com')
+    const trip = getMockTrip(2, 'asha@example.com')
+
+    const saving = updateTripOptimistically(trip, { pricePerPerson: 350 })
+    window.dispatchEvent(new Event('pagehide'))
+
+    await expect(saving).resolves.toEqual({ status: 'queued' })
+    expect(getOutboxState().entries).toContainEqual(expect.objectContaining({
+      type: 'updateTrip',
+      payload: { tripId: 2, changes: { pricePerPerson: 350 } },
+      label: 'Update Bengaluru → Mysuru'
+    }))
+    expect(mockApi().db.trips.find(stored => stored.id === 2)?.pricePerPerson).toBe(300)
+  })
+})
@@ -0,0 +1,408 @@
+import {
+  acceptSeatOffer,
+  cancelTrip,
+  completeTrip,
+  deleteTrip,
+  joinWaitlist,
+  leaveTrip,
+  leaveWaitlist,
+  requestToJoinTrip,
+  respondToTripRequest,
+  startTrip,
+  updateTrip
+} from '@/lib/api'
+import { MESSAGES, TOAST } from '@/lib/constants'
+import { ApiError, toApiError } from '@/lib/errors'
+import { OutboxOperation, queueForReplay, sendOrQueue } from '@/lib/outbox'
+import {
+  holdQueries,
+  isTripQuery,
+  isTripRequestsQuery,
+  QUERY_KEYS,
+  QueryKey,
+  restoreQueries,
+  snapshotQueries,
+  updateQueries
+} from '@/lib/queryCache'
+import { dismissToast, showToast } from '@/lib/toast'
+import { CancelTripData, JoinTripData, LeaveTripData, Trip, TripMatch, UpdateTripData } from '@/types/trip'
+
+export type MutationOutcome<T> =
+  | { status: 'committed'; result: T }
+  | { status: 'undone' }
+  | { status: 'failed'; error: ApiError }
+  // The page closed during the undo window, so the write waits in the outbox for the next load
+  | { status: 'queued' }
+
+interface OptimisticMutation<T> {
+  // Apply the change locally and return a function that reverts it
+  apply: () => () => void
+  commit: () => Promise<T>
+  successMessage: string
+  // Replaces successMessage once the result is known, e.g. when the write was queued offline
+  resultMessage?: (result: T) => string | undefined
+  // Names what failed, e.g. "Couldn't delete Pune → Mumbai"
+  failureMessage: string
+  // Hold the request back for the undo window instead of sending it right away
+  undoable?: boolean
+  // How to send an undoable change later if the page closes during its undo window
+  replay?: { operation: OutboxOperation; label: string }
+}
+
+// Undoable mutations that are still waiting out their undo window
+const pendingCommits = new Set<() => void>()
+let isListeningForPageHide = false
+
+// Requests started while the page unloads are usually dropped, so anything still
+// waiting is parked in the outbox and sent on the next load instead
+function flushOnPageHide() {
+  if (isListeningForPageHide || typeof window === 'undefined') return
+  isListeningForPageHide = true
+  window.addEventListener('pagehide', () => {
+    pendingCommits.forEach(commit => commit())
+  })
+}
+
+// Trips with a request on its way to the server, so their buttons can't fire it twice
+const pendingTrips = new Map<number, number>()
+const pendingTripListeners = new Set<() => void>()
+
+export function isTripMutationPending(tripId: number): boolean {
+  return pendingTrips.has(tripId)
+}
+
+export function subscribeToPendingTrips(listener: () => void): () => void {
+  pendingTripListeners.add(listener)
+  return () => {
+    pendingTripListeners.delete(listener)
+  }
+}
+
+function setTripPending(tripId: number, delta: 1 | -1) {
+  const count = (pendingTrips.get(tripId) ?? 0) + delta
+  if (count > 0) pendingTrips.set(tripId, count)
+  else pendingTrips.delete(tripId)
+  pendingTripListeners.forEach(listener => listener())
+}
+
+function whilePending<T>(tripId: number, mutation: () => Promise<T>): Promise<T> {
+  setTripPending(tripId, 1)
+  return mutation().finally(() => setTripPending(tripId, -1))
+}
+
+// Never rejects: failures are rolled back and reported in a toast, and the
+// outcome tells the caller what happened
+export function runOptimisticMutation<T>({
+  apply,
+  commit,
+  successMessage,
+  failureMessage,
+  resultMessage,
+  undoable = false,
+  replay
+}: OptimisticMutation<T>): Promise<MutationOutcome<T>> {
+  // A refetch before the change settles would put the old trip back on screen
+  const release = holdQueries(isTripQuery)
+  const rollback = apply()
+
+  const send = (): Promise<MutationOutcome<T>> =>
+    commit().then(
+      (result): MutationOutcome<T> => ({ status: 'committed', result }),
+      (error): MutationOutcome<T> => {
+        rollback()
+        const apiError = toApiError(error)
+        showToast({
+          variant: 'error',
+          message: `${failureMessage}: ${apiError.message} Your change has been undone.`,
+          durationMs: TOAST.DEFAULT_DURATION_MS * 2
+        })
+        return { status: 'failed', error: apiError }
+      }
+    )
+
+  if (!undoable) {
+    return send().then(outcome => {
+      if (outcome.status === 'committed') {
+        showToast({ variant: 'success', message: resultMessage?.(outcome.result) ?? successMessage })
+      }
+      return outcome
+    }).finally(release)
+  }
+
+  flushOnPageHide()
+
+  return new Promise<MutationOutcome<T>>(resolve => {
+    let settled = false
+
+    const settle = () => {
+      settled = true
+      clearTimeout(timer)
+      pendingCommits.delete(commitOnPageHide)
+    }
+
+    const commitNow = () => {
+      if (settled) return
+      settle()
+      dismissToast(toastId)
+      send().then(resolve)
+    }
+
+    const commitOnPageHide = () => {
+      if (settled) return
+      const entry = replay && queueForReplay(replay.operation, replay.label)
+      if (!entry) return commitNow()
+      settle()
+      dismissToast(toastId)
+      resolve({ status: 'queued' })
+    }
+
+    const undo = () => {
+      if (settled) return
+      settle()
+      rollback()
+      resolve({ status: 'undone' })
+    }
+
+    const toastId = showToast({
+      variant: 'info',
+      message: successMessage,
+      action: { label: 'Undo', onClick: undo },
+      durationMs: TOAST.UNDO_WINDOW_MS
+    })
+    const timer = setTimeout(commitNow, TOAST.UNDO_WINDOW_MS)
+    pendingCommits.add(commitOnPageHide)
+  }).finally(release)
+}
+
+// Apply a change to this trip wherever it is cached (lists, search results, detail page).
+// Returning null from update removes the trip from lists. Rolling back only puts this
+// trip's previous record back, so other mutations that overlap with it are kept.
+const isCachedTripQuery = (key: string) => isTripQuery(key) && !isTripRequestsQuery(key)
+
+function patchCachedTrip(tripId: number, update: (trip: Trip) => Trip | null): () => void {
+  const previous = new Map<QueryKey, { trip: Trip; index: number }>()
+
+  updateQueries(isCachedTripQuery, (data, key) => {
+    if (Array.isArray(data)) {
+      const trips = [...data as Trip[]]
+      const index = trips.findIndex(trip => trip.id === tripId)
+      if (index === -1) return data
+      previous.set(key, { trip: trips[index], index })
+      const updated = update(trips[index])
+      if (updated) trips[index] = updated
+      else trips.splice(index, 1)
+      return trips
+    }
+    const single = data as Trip
+    if (single?.id !== tripId) return data
+    previous.set(key, { trip: single, index: 0 })
+    return update(single) ?? single
+  })
+
+  return () => {
+    updateQueries(key => previous.has(key), (data, key) => {
+      const entry = previous.get(key)
+      if (!entry) return data
+      if (!Array.isArray(data)) return entry.trip
+      const trips = (data as Trip[]).filter(trip => trip.id !== tripId)
+      trips.splice(Math.min(entry.index, trips.length), 0, entry.trip)
+      return trips
+    })
+  }
+}
+
+const routeLabel = (trip: Trip) => `${trip.from} → ${trip.to}`
+
+const seatLabel = (seats: number) => `${seats} seat${seats === 1 ? '' : 's'}`
+
+// Joining competes for seats, so it is sent immediately rather than held for undo
+export function joinTripOptimistically(trip: Trip, booking: JoinTripData = { seats: 1 }) {
+  return runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      currentPassengers: current.currentPassengers + booking.seats,
+      seatsBooked: booking.seats,
+      userRole: 'passenger'
+    })),
+    // Offline joins are queued and keep their optimistic seats until the replay settles
+    commit: () => sendOrQueue<{ message: string }>(
+      { type: 'joinTrip', payload: { tripId: trip.id, booking } },
+      `Join ${routeLabel(trip)}`
+    ),
+    successMessage: booking.seats > 1
+      ? `You booked ${seatLabel(booking.seats)} on ${routeLabel(trip)}`
+      : `You joined ${routeLabel(trip)}`,
+    resultMessage: result => result.status === 'queued' ? MESSAGES.SUCCESS.QUEUED_OFFLINE : undefined,
+    failureMessage: `Couldn't join ${routeLabel(trip)}`
+  })
+}
+
+export function updateTripOptimistically(trip: Trip, changes: UpdateTripData) {
+  return runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({ ...current, ...changes })),
+    commit: () => updateTrip(trip.id, changes),
+    replay: { operation: { type: 'updateTrip', payload: { tripId: trip.id, changes } }, label: `Update ${routeLabel(trip)}` },
+    successMessage: `Saved changes to ${routeLabel(trip)}`,
+    failureMessage: `Couldn't save changes to ${routeLabel(trip)}`,
+    undoable: true
+  })
+}
+
+export function deleteTripOptimistically(trip: Trip) {
+  return runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, () => null),
+    commit: () => deleteTrip(trip.id),
+    replay: { operation: { type: 'deleteTrip', payload: { tripId: trip.id } }, label: `Delete ${routeLabel(trip)}` },
+    successMessage: `Deleted ${routeLabel(trip)}`,
+    failureMessage: `Couldn't delete ${routeLabel(trip)}`,
+    undoable: true
+  })
+}
+
+// Starting and completing notify every passenger, so they are sent right away
+export function startTripOptimistically(trip: Trip) {
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      status: 'in_progress',
+      startedAt: new Date().toISOString()
+    })),
+    commit: () => startTrip(trip.id),
+    successMessage: `Started ${routeLabel(trip)}`,
+    failureMessage: `Couldn't start ${routeLabel(trip)}`
+  }))
+}
+
+export function completeTripOptimistically(trip: Trip) {
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      status: 'completed',
+      completedAt: new Date().toISOString()
+    })),
+    commit: () => completeTrip(trip.id),
+    successMessage: `Completed ${routeLabel(trip)}`,
+    failureMessage: `Couldn't complete ${routeLabel(trip)}`
+  }))
+}
+
+// Unlike deleting, cancelling keeps the trip in everyone's history with the driver's reason
+export function cancelTripOptimistically(trip: Trip, data: CancelTripData) {
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+      cancellationReason: data.reason,
+      cancellationNote: data.note?.trim() || undefined
+    })),
+    commit: () => cancelTrip(trip.id, data),
+    replay: { operation: { type: 'cancelTrip', payload: { tripId: trip.id, data } }, label: `Cancel ${routeLabel(trip)}` },
+    successMessage: `Cancelled ${routeLabel(trip)}`,
+    failureMessage: `Couldn't cancel ${routeLabel(trip)}`,
+    undoable: true
+  }))
+}
+
+// Leaving frees a seat rather than taking one, so it can wait out the undo window
+export function leaveTripOptimistically(trip: Trip, data: LeaveTripData) {
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      currentPassengers: Math.max(current.currentPassengers - (current.seatsBooked ?? 1), 0),
+      seatsBooked: undefined,
+      userRole: 'none',
+      ...(current.requestStatus && { requestStatus: 'cancelled' })
+    })),
+    commit: () => leaveTrip(trip.id, data),
+    replay: { operation: { type: 'leaveTrip', payload: { tripId: trip.id, data } }, label: `Leave ${routeLabel(trip)}` },
+    successMessage: `You left ${routeLabel(trip)}`,
+    failureMessage: `Couldn't leave ${routeLabel(trip)}`,
+    undoable: true
+  }))
+}
+
+export function joinWaitlistOptimistically(trip: Trip, booking: JoinTripData) {
+  return runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      waitlistLength: (current.waitlistLength ?? 0) + 1,
+      waitlist: { status: 'waiting', seats: booking.seats, position: (current.waitlistLength ?? 0) + 1 }
+    })),
+    commit: () => joinWaitlist(trip.id, booking),
+    successMessage: `You're on the waitlist for ${routeLabel(trip)}`,
+    resultMessage: entry => entry.position ? `You're #${entry.position} on the waitlist for ${routeLabel(trip)}` : undefined,
+    failureMessage: `Couldn't join the waitlist for ${routeLabel(trip)}`
+  })
+}
+
+// Leaving the line and declining an offer are the same request
+export function leaveWaitlistOptimistically(trip: Trip) {
+  const isOffer = trip.waitlist?.status === 'offered'
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      waitlist: undefined,
+      ...(isOffer
+        ? { seatsOnHold: Math.max((current.seatsOnHold ?? 0) - (current.waitlist?.seats ?? 1), 0) }
+        : { waitlistLength: Math.max((current.waitlistLength ?? 1) - 1, 0) })
+    })),
+    commit: () => leaveWaitlist(trip.id),
+    successMessage: isOffer ? `Declined the seat on ${routeLabel(trip)}` : `You left the waitlist for ${routeLabel(trip)}`,
+    failureMessage: `Couldn't update your waitlist place for ${routeLabel(trip)}`
+  }))
+}
+
+// The offered seats are already held for the viewer, so accepting just moves them over
+export function acceptSeatOfferOptimistically(trip: Trip) {
+  const seats = trip.waitlist?.seats ?? 1
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({
+      ...current,
+      currentPassengers: current.currentPassengers + seats,
+      seatsOnHold: Math.max((current.seatsOnHold ?? 0) - seats, 0),
+      seatsBooked: seats,
+      userRole: 'passenger',
+      waitlist: undefined
+    })),
+    commit: () => acceptSeatOffer(trip.id),
+    successMessage: `You joined ${routeLabel(trip)}`,
+    failureMessage: `Couldn't take the seat on ${routeLabel(trip)}`
+  }))
+}
+
+// Requests are sent immediately; the driver sees them as soon as they arrive
+export function requestToJoinOptimistically(trip: Trip, note?: string, booking?: JoinTripData) {
+  return runOptimisticMutation({
+    apply: () => patchCachedTrip(trip.id, current => ({ ...current, requestStatus: 'pending' })),
+    commit: () => requestToJoinTrip(trip.id, note, booking),
+    successMessage: `Request sent to join ${routeLabel(trip)}`,
+    failureMessage: `Couldn't send your request for ${routeLabel(trip)}`
+  })
+}
+
+// Accepting takes a seat, so like joining it is sent right away
+export function respondToRequestOptimistically(trip: Trip, match: TripMatch, decision: 'confirmed' | 'declined') {
+  const name = match.passenger?.name ?? 'the passenger'
+  return whilePending(trip.id, () => runOptimisticMutation({
+    apply: () => {
+      const requestsKey = QUERY_KEYS.tripRequests(trip.id)
+      const requests = snapshotQueries(requestsKey)
+      updateQueries(requestsKey, data => (data as TripMatch[]).filter(other => other.id !== match.id))
+      const rollbackTrip = patchCachedTrip(trip.id, current => ({
+        ...current,
+        pendingRequests: Math.max((current.pendingRequests ?? 1) - 1, 0),
+        currentPassengers: current.currentPassengers + (decision === 'confirmed' ? match.seats ?? 1 : 0)
+      }))
+      return () => {
+        rollbackTrip()
+        restoreQueries(requests)
+      }
+    },
+    commit: () => respondToTripRequest(trip.id, match.id, decision),
+    successMessage: decision === 'confirmed'
+      ? `${name} is joining ${routeLabel(trip)}`
+      : `Declined ${name}'s request`,
+    failureMessage: `Couldn't ${decision === 'confirmed' ? 'accept' : 'decline'} ${name}'s request`
+  }))
+}
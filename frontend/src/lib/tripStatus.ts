@@ -0,0 +1,32 @@
+import { TRIP_LIFECYCLE } from '@/lib/constants'
+import { Trip } from '@/types/trip'
+
+// What a trip looks like to its riders right now. 'departed' is never stored: it is
+// an active trip whose departure time has passed without the driver starting it.
+export type TripPhase = Trip['status'] | 'departed'
+
+export const TRIP_PHASE_LABELS: Record<TripPhase, string> = {
+  active: 'Active',
+  departed: 'Departed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+}
+
+export const TRIP_PHASE_STYLES: Record<TripPhase, string> = {
+  active: 'bg-green-100 text-green-800',
+  departed: 'bg-amber-100 text-amber-800',
+  in_progress: 'bg-purple-100 text-purple-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800'
+}
+
+export function getTripPhase(trip: Pick<Trip, 'status' | 'departureTime'>, now: number = Date.now()): TripPhase {
+  if (trip.status !== 'active') return trip.status
+  return new Date(trip.departureTime).getTime() <= now ? 'departed' : 'active'
+}
+
+// The mock API uses the same rule as the Start Trip button
+export function canStartTrip(trip: Pick<Trip, 'status' | 'departureTime'>, now: number = Date.now()): boolean {
+  return trip.status === 'active' && new Date(trip.departureTime).getTime() - now <= TRIP_LIFECYCLE.START_WINDOW_MS
+}
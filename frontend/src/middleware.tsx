@@ -1,25 +1,54 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import {
+  AUTH_COOKIE_NAME,
+  getSafeRedirectPath,
+  hasAdminAccess,
+  REFRESH_COOKIE_NAME,
+  ROLE_COOKIE_NAME,
+  isTokenExpired
+} from '@/lib/auth'
 
 export function middleware(request: NextRequest) {
-  const token = request.cookies.get('token')?.value
-  const isAuthPage = request.nextUrl.pathname.startsWith('/login') || 
-                     request.nextUrl.pathname.startsWith('/register')
-  const isDashboardPage = request.nextUrl.pathname.startsWith('/dashboard')
+  const { pathname, search } = request.nextUrl
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value
+  const hasValidToken = !!token && !isTokenExpired(token)
+  // The client renews an expired access token itself, so only a missing refresh token means signed out
+  const canRefresh = request.cookies.has(REFRESH_COOKIE_NAME)
+  const isAuthPage = pathname.startsWith('/login') ||
+                     pathname.startsWith('/register')
+  const isAdminPage = pathname.startsWith('/admin')
+  const isProtectedPage = pathname.startsWith('/dashboard') ||
+                          pathname.startsWith('/search') ||
+                          isAdminPage
 
-  // Redirect to login if accessing dashboard without token
-  // if (isDashboardPage && !token) {
-  //   return NextResponse.redirect(new URL('/login', request.url))
-  // }
+  // Redirect to login if accessing protected pages without a session
+  if (isProtectedPage && !hasValidToken && !canRefresh) {
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', `${pathname}${search}`)
+    const response = NextResponse.redirect(loginUrl)
+    if (token) {
+      response.cookies.delete(AUTH_COOKIE_NAME)
+    }
+    return response
+  }
 
-  // Redirect to dashboard if accessing auth pages with token
-  if (isAuthPage && token) {
+  // Send signed-in non-staff to the dashboard rather than the admin console; until
+  // /auth/me has set the role, the admin layout makes the same check on the client
+  const role = request.cookies.get(ROLE_COOKIE_NAME)?.value
+  if (isAdminPage && role && !hasAdminAccess(role)) {
     return NextResponse.redirect(new URL('/dashboard', request.url))
   }
 
+  // Redirect to dashboard (or the requested page) if accessing auth pages with a valid token
+  if (isAuthPage && hasValidToken) {
+    const next = getSafeRedirectPath(request.nextUrl.searchParams.get('next'))
+    return NextResponse.redirect(new URL(next, request.url))
+  }
+
   return NextResponse.next()
 }
 
 export const config = {
-  matcher: ['/dashboard/:path*', '/login', '/register']
+  matcher: ['/dashboard/:path*', '/search/:path*', '/admin/:path*', '/login', '/register']
 }
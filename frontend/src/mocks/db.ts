@@ -0,0 +1,119 @@
+import { Trip } from '@/types/trip'
+import { UserWithRole } from '@/types/user'
+import { createFixtures, MOCK_SEAT_OFFER_WINDOW_MS, MockFixtures, MockTripRecord } from '@/mocks/fixtures'
+
+// In-memory state behind the mock API. Each test (or page load) gets a fresh copy.
+export interface MockDb extends MockFixtures {
+  // Refresh token -> user id
+  refreshTokens: Map<string, number>
+  nextId: () => number
+}
+
+export function createMockDb(now: number = Date.now()): MockDb {
+  const fixtures = createFixtures(now)
+  let lastId = 100
+  return {
+    ...fixtures,
+    refreshTokens: new Map(),
+    nextId: () => ++lastId
+  }
+}
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+// Unsigned JWT with the claims lib/auth reads, so the middleware and session timers work as usual
+export function createMockToken(user: UserWithRole, expiresInSeconds = 60 * 60): string {
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const payload = {
+    user_id: user.id,
+    email: user.email,
+    name: user.name,
+    iat: issuedAt,
+    exp: issuedAt + expiresInSeconds
+  }
+  return `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url(payload)}.mock`
+}
+
+export function readMockToken(token: string): { userId: number; exp: number } | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    return { userId: payload.user_id, exp: payload.exp }
+  } catch {
+    return null
+  }
+}
+
+export const seatsHeldBy = (record: MockTripRecord, passengerId: number) => record.bookings[passengerId]?.seats ?? 1
+
+export const seatsTaken = (record: MockTripRecord) =>
+  record.passengerIds.reduce((total, id) => total + seatsHeldBy(record, id), 0)
+
+export const seatsOnHold = (db: MockDb, record: MockTripRecord) =>
+  db.waitlist
+    .filter(entry => entry.tripId === record.id && entry.offerExpiresAt)
+    .reduce((total, entry) => total + entry.seats, 0)
+
+// Drop lapsed offers and offer free seats to the front of the line, in order. The
+// backend does this whenever seats change; the mock catches up on every read and write.
+export function settleWaitlist(db: MockDb, record: MockTripRecord, now: number = Date.now()) {
+  db.waitlist = db.waitlist.filter(entry =>
+    entry.tripId !== record.id || !entry.offerExpiresAt || new Date(entry.offerExpiresAt).getTime() > now
+  )
+  if (record.status !== 'active') return
+
+  let free = record.maxPassengers - seatsTaken(record) - seatsOnHold(db, record)
+  for (const entry of db.waitlist.filter(entry => entry.tripId === record.id && !entry.offerExpiresAt)) {
+    if (entry.seats > free) break
+    entry.offerExpiresAt = new Date(now + MOCK_SEAT_OFFER_WINDOW_MS).toISOString()
+    free -= entry.seats
+  }
+}
+
+// Expand a stored trip into the shape the API returns for the given viewer
+export function toTripResponse(db: MockDb, record: MockTripRecord, viewerId?: number): Trip {
+  settleWaitlist(db, record)
+  const { passengerIds, bookings, ...trip } = record
+  const findUser = (id: number) => db.users.find(user => user.id === id)
+  const driver = findUser(record.driverId)
+  const passengers = passengerIds
+    .map(findUser)
+    .filter((user): user is UserWithRole => !!user)
+
+  let userRole: Trip['userRole'] = 'none'
+  if (viewerId === record.driverId) userRole = 'driver'
+  else if (viewerId !== undefined && passengerIds.includes(viewerId)) userRole = 'passenger'
+
+  const matches = db.matches.filter(match => match.tripId === record.id)
+  // The viewer's latest request wins, so a new request replaces a declined one
+  const ownRequest = matches.filter(match => match.passengerId === viewerId).at(-1)
+
+  const queue = db.waitlist.filter(entry => entry.tripId === record.id)
+  const waiting = queue.filter(entry => !entry.offerExpiresAt)
+  const ownEntry = queue.find(entry => entry.passengerId === viewerId)
+
+  return {
+    ...trip,
+    currentPassengers: seatsTaken(record),
+    driver,
+    passengers,
+    userRole,
+    ...(userRole === 'driver' && {
+      pendingRequests: matches.filter(match => match.status === 'pending').length,
+      bookings: passengerIds.map(passengerId => ({
+        passengerId,
+        seats: seatsHeldBy(record, passengerId),
+        companions: bookings[passengerId]?.companions ?? []
+      }))
+    }),
+    ...(userRole === 'passenger' && { seatsBooked: seatsHeldBy(record, viewerId as number) }),
+    seatsOnHold: seatsOnHold(db, record),
+    waitlistLength: waiting.length,
+    ...(ownEntry && {
+      waitlist: ownEntry.offerExpiresAt
+        ? { status: 'offered', seats: ownEntry.seats, offerExpiresAt: ownEntry.offerExpiresAt }
+        : { status: 'waiting', seats: ownEntry.seats, position: waiting.indexOf(ownEntry) + 1 }
+    }),
+    ...(ownRequest && { requestStatus: ownRequest.status })
+  }
+}
@@ -0,0 +1,190 @@
+import { Trip, TripBooking, TripMatch } from '@/types/trip'
+import { UserActivity, UserRole, UserSession, UserWithRole } from '@/types/user'
+
+// Every fixture account signs in with this password
+export const MOCK_PASSWORD = 'password123'
+// Accepted by the phone, reset and email verification endpoints
+export const MOCK_OTP_CODE = '123456'
+export const MOCK_RESET_TOKEN = 'mock-reset-token'
+export const MOCK_VERIFICATION_TOKEN = 'mock-verification-token'
+// How long a waitlisted passenger has to take a seat that freed up
+export const MOCK_SEAT_OFFER_WINDOW_MS = 15 * 60 * 1000
+
+// Stored trips keep passenger ids; responses expand them into users and work out
+// the fields that depend on the viewer, the join requests or the waitlist
+export interface MockTripRecord extends Omit<
+  Trip,
+  | 'driver'
+  | 'passengers'
+  | 'userRole'
+  | 'currentPassengers'
+  | 'pendingRequests'
+  | 'requestStatus'
+  | 'seatsBooked'
+  | 'bookings'
+  | 'seatsOnHold'
+  | 'waitlistLength'
+  | 'waitlist'
+> {
+  passengerIds: number[]
+  // Group bookings by passenger id; passengers without one hold a single seat
+  bookings: Record<number, Omit<TripBooking, 'passengerId'>>
+}
+
+// Join requests; responses embed the passenger
+export type MockMatchRecord = Omit<TripMatch, 'trip' | 'passenger'>
+
+// In joining order; an entry with offerExpiresAt is holding freed seats for its passenger
+export interface MockWaitlistRecord extends Omit<TripBooking, 'passengerId'> {
+  tripId: number
+  passengerId: number
+  joinedAt: string
+  offerExpiresAt?: string
+}
+
+export interface MockFixtures {
+  users: UserWithRole[]
+  trips: MockTripRecord[]
+  matches: MockMatchRecord[]
+  waitlist: MockWaitlistRecord[]
+  sessions: Record<number, UserSession[]>
+  activity: UserActivity[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Departure times are relative to `now` so the fixtures never drift into the past
+export function createFixtures(now: number = Date.now()): MockFixtures {
+  const at = (offsetMs: number) => new Date(now + offsetMs).toISOString()
+  const created = at(-30 * DAY_MS)
+
+  const user = (
+    id: number,
+    name: string,
+    email: string,
+    phone: string,
+    extra: Partial<UserWithRole> = {}
+  ): UserWithRole => ({
+    id,
+    name,
+    email,
+    phone,
+    role: UserRole.USER,
+    isVerified: true,
+    isEmailVerified: true,
+    isSuspended: false,
+    createdAt: created,
+    updatedAt: created,
+    ...extra
+  })
+
+  const users = [
+    user(1, 'Asha Driver', 'asha@example.com', '+919800000001'),
+    user(2, 'Rohan Rider', 'rohan@example.com', '+919800000002'),
+    user(3, 'Meera Unverified', 'meera@example.com', '+919800000003', {
+      isVerified: false,
+      isEmailVerified: false
+    }),
+    user(4, 'Vikram Admin', 'admin@example.com', '+919800000004', { role: UserRole.ADMIN }),
+    user(5, 'Kabir Passenger', 'kabir@example.com', '+919800000005'),
+    user(6, 'Neha Passenger', 'neha@example.com', '+919800000006')
+  ]
+
+  const trip = (
+    id: number,
+    driverId: number,
+    from: string,
+    to: string,
+    departsInMs: number,
+    maxPassengers: number,
+    pricePerPerson: number,
+    passengerIds: number[],
+    extra: Partial<MockTripRecord> = {}
+  ): MockTripRecord => ({
+    id,
+    driverId,
+    from,
+    to,
+    departureTime: at(departsInMs),
+    maxPassengers,
+    pricePerPerson,
+    passengerIds,
+    bookings: {},
+    description: '',
+    status: 'active',
+    verifiedPassengersOnly: false,
+    requiresApproval: false,
+    createdAt: created,
+    updatedAt: created,
+    ...extra
+  })
+
+  const trips = [
+    trip(1, 1, 'Pune', 'Mumbai Airport', 6 * HOUR_MS, 3, 450, [2], {
+      description: 'Leaving from Koregaon Park, room for one bag each.'
+    }),
+    trip(2, 1, 'Bengaluru', 'Mysuru', 2 * DAY_MS, 4, 300, []),
+    // Already full, with Meera first on the waitlist
+    trip(3, 6, 'Delhi', 'Jaipur', 3 * DAY_MS, 2, 650, [1, 5], {
+      description: 'Early start to beat the traffic.'
+    }),
+    trip(4, 6, 'Hyderabad', 'Vijayawada', 5 * DAY_MS, 3, 500, [5], { verifiedPassengersOnly: true }),
+    // Kabir travels with a friend, so two of the three seats are taken
+    trip(5, 2, 'Chennai', 'Pondicherry', 1 * DAY_MS + 3 * HOUR_MS, 3, 350, [5], {
+      bookings: { 5: { seats: 2, companions: ['Zoya Khan'] } }
+    }),
+    trip(6, 1, 'Mumbai', 'Pune', -3 * DAY_MS, 3, 400, [2, 5], { status: 'completed' }),
+    trip(7, 5, 'Kolkata', 'Digha', 4 * DAY_MS, 4, 550, [], { status: 'cancelled' }),
+    // Request-to-join, with one pending and one declined request
+    trip(8, 1, 'Pune', 'Goa', 3 * DAY_MS + 2 * HOUR_MS, 3, 900, [], {
+      description: 'Weekend drive down the coast. Tell me a bit about yourself.',
+      requiresApproval: true
+    }),
+    // Leaves within the hour, so Asha can already start it
+    trip(9, 1, 'Mumbai', 'Nashik', 30 * 60 * 1000, 3, 400, [2])
+  ]
+
+  const matches: MockMatchRecord[] = [
+    {
+      id: 1,
+      tripId: 8,
+      passengerId: 5,
+      status: 'pending',
+      note: 'Two of us with light bags.',
+      seats: 2,
+      companions: ['Ira Mehta'],
+      joinedAt: at(-2 * HOUR_MS)
+    },
+    { id: 2, tripId: 8, passengerId: 6, status: 'declined', joinedAt: at(-DAY_MS), respondedAt: at(-20 * HOUR_MS) }
+  ]
+
+  const waitlist: MockWaitlistRecord[] = [
+    { tripId: 3, passengerId: 3, seats: 1, companions: [], joinedAt: at(-5 * HOUR_MS) },
+    // A seat freed up on Neha's verified-only trip and Asha has a few minutes left to take it
+    { tripId: 4, passengerId: 1, seats: 1, companions: [], joinedAt: at(-DAY_MS), offerExpiresAt: at(10 * 60 * 1000) }
+  ]
+
+  const session = (id: string, device: string, browser: string, lastActiveMs: number, isCurrent: boolean): UserSession => ({
+    id,
+    device,
+    browser,
+    ipAddress: '203.0.113.10',
+    location: 'Pune, India',
+    createdAt: at(-7 * DAY_MS),
+    lastActiveAt: at(lastActiveMs),
+    isCurrent
+  })
+
+  const sessions = Object.fromEntries(users.map(({ id }) => [id, [
+    session(`${id}-current`, 'This device', 'Chrome', 0, true),
+    session(`${id}-phone`, 'Pixel 8', 'RideShare app', -2 * DAY_MS, false)
+  ]]))
+
+  const activity: UserActivity[] = users.flatMap(({ id }, index) => [
+    { id: index * 2 + 1, userId: id, action: 'login', details: 'Signed in from Chrome', timestamp: at(-HOUR_MS) },
+    { id: index * 2 + 2, userId: id, action: 'profile_update', details: 'Updated phone number', timestamp: at(-3 * DAY_MS) }
+  ])
+
+  return { users, trips, matches, waitlist, sessions, activity }
+}
@@ -0,0 +1,631 @@
+import { API_ENDPOINTS, CANCELLATION_REASONS, TRIP_CANCELLATION_REASONS, TRIP_LIFECYCLE, VALIDATION } from '@/lib/constants'
+import { CancellationReason, CreateTripData, TripBooking, TripCancellationReason } from '@/types/trip'
+import { UserRole, UserWithRole } from '@/types/user'
+import { isLateCancellation } from '@/lib/cancellation'
+import { canStartTrip, getTripPhase } from '@/lib/tripStatus'
+import { fromSearchPayload, fromTripPayload, toTripMatchWire, toTripWire, toWaitlistWire } from '@/lib/schema'
+import {
+  createMockToken,
+  MockDb,
+  readMockToken,
+  seatsOnHold,
+  seatsTaken,
+  settleWaitlist,
+  toTripResponse
+} from '@/mocks/db'
+import {
+  MOCK_OTP_CODE,
+  MOCK_PASSWORD,
+  MOCK_RESET_TOKEN,
+  MOCK_VERIFICATION_TOKEN,
+  MockMatchRecord,
+  MockTripRecord,
+  MockWaitlistRecord
+} from '@/mocks/fixtures'
+
+export interface MockRequest {
+  method: string
+  // Path relative to the API base URL, without the query string
+  path: string
+  params: Record<string, string>
+  query: Record<string, string>
+  body: Record<string, unknown>
+  headers: Record<string, string>
+}
+
+export interface MockResponse {
+  status: number
+  data?: unknown
+  headers?: Record<string, string>
+  // Fail as if the connection dropped, with no response at all
+  networkError?: boolean
+}
+
+type Handler = (request: MockRequest, db: MockDb) => MockResponse
+type AuthedHandler = (request: MockRequest, db: MockDb, viewer: UserWithRole) => MockResponse
+
+interface MockRoute {
+  method: string
+  pattern: RegExp
+  paramNames: string[]
+  handle: Handler
+}
+
+export const json = (status: number, data?: unknown): MockResponse => ({ status, data })
+
+// Same body shape as the real backend's errors, see lib/errors
+export const apiError = (
+  status: number,
+  code: string,
+  error: string,
+  fields?: Record<string, string>
+): MockResponse => json(status, { code, error, fields, requestId: `mock-${Date.now().toString(36)}` })
+
+const notFound = (what = 'Trip') => apiError(404, `${what.toUpperCase()}_NOT_FOUND`, `${what} not found.`)
+
+// Turn an API_ENDPOINTS entry into a path pattern; builders are called with placeholders
+const path = (endpoint: string | ((id: never, subId: never) => string)) =>
+  typeof endpoint === 'string' ? endpoint : endpoint(':id' as never, ':subId' as never)
+
+function getViewer(request: MockRequest, db: MockDb): UserWithRole | null {
+  const token = request.headers.authorization?.replace(/^Bearer /, '')
+  const claims = token ? readMockToken(token) : null
+  if (!claims || claims.exp * 1000 < Date.now()) return null
+  return db.users.find(user => user.id === claims.userId) ?? null
+}
+
+const authed = (handle: AuthedHandler, roles?: UserRole[]): Handler => (request, db) => {
+  const viewer = getViewer(request, db)
+  if (!viewer) return apiError(401, 'UNAUTHORIZED', 'Your session has expired. Please sign in again.')
+  if (roles && !roles.includes(viewer.role)) {
+    return apiError(403, 'FORBIDDEN', 'You are not authorized to perform this action.')
+  }
+  return handle(request, db, viewer)
+}
+
+function issueTokens(db: MockDb, user: UserWithRole) {
+  const refreshToken = `mock-refresh-${user.id}-${db.nextId()}`
+  db.refreshTokens.set(refreshToken, user.id)
+  return { token: createMockToken(user), refreshToken }
+}
+
+// Trips go over the wire in the backend's snake_case, see lib/schema
+const tripResponse = (db: MockDb, record: MockTripRecord, viewerId?: number) =>
+  toTripWire(toTripResponse(db, record, viewerId))
+
+const findTrip = (db: MockDb, id: string) => db.trips.find(trip => trip.id === Number(id))
+
+const matchResponse = (db: MockDb, match: MockMatchRecord) =>
+  toTripMatchWire({ ...match, passenger: db.users.find(user => user.id === match.passengerId) })
+
+// Seats nobody holds and nobody on the waitlist has been offered
+function freeSeats(db: MockDb, trip: MockTripRecord): number {
+  settleWaitlist(db, trip)
+  return trip.maxPassengers - seatsTaken(trip) - seatsOnHold(db, trip)
+}
+
+// Checks shared by joining directly, asking to join and joining the waitlist
+function joinError(db: MockDb, trip: MockTripRecord, viewer: UserWithRole, isWaitlist = false): MockResponse | undefined {
+  if (trip.driverId === viewer.id) return apiError(409, 'DRIVER_CANNOT_JOIN', "You can't join your own trip.")
+  if (trip.passengerIds.includes(viewer.id)) return apiError(409, 'ALREADY_JOINED', "You've already joined this trip.")
+  if (getTripPhase(trip) === 'departed') return apiError(409, 'TRIP_DEPARTED', 'This trip has already left.')
+  if (!isWaitlist && freeSeats(db, trip) <= 0) return apiError(409, 'TRIP_FULL', 'This trip is already full.')
+  if (trip.verifiedPassengersOnly && !viewer.isVerified) {
+    return apiError(403, 'VERIFIED_PASSENGERS_ONLY', 'This trip is only open to verified passengers.')
+  }
+  return undefined
+}
+
+type SeatBooking = Omit<TripBooking, 'passengerId'>
+
+const notEnoughSeats = (remaining: number) =>
+  apiError(409, 'NOT_ENOUGH_SEATS', `Only ${remaining} seat${remaining === 1 ? '' : 's'} left on this trip.`)
+
+// Seats and companions from a join, request or waitlist body; a body without them books one seat.
+// Pass the free seats to refuse bookings that don't fit.
+function readBooking(body: Record<string, unknown>, remaining?: number): SeatBooking | MockResponse {
+  const seats = body.seats === undefined ? 1 : Number(body.seats)
+  if (!Number.isInteger(seats) || seats < 1 || seats > VALIDATION.MAX_PASSENGERS) {
+    return apiError(400, 'VALIDATION_FAILED', 'Please check the booking.', {
+      seats: `Book between 1 and ${VALIDATION.MAX_PASSENGERS} seats`
+    })
+  }
+  const companions = Array.isArray(body.companions)
+    ? body.companions.filter((name): name is string => typeof name === 'string' && !!name.trim()).map(name => name.trim())
+    : []
+  if (companions.length > seats - 1) {
+    return apiError(400, 'VALIDATION_FAILED', 'Please check the booking.', {
+      companions: 'Name at most one companion for each extra seat'
+    })
+  }
+  if (remaining !== undefined && seats > remaining) return notEnoughSeats(remaining)
+  return { seats, companions }
+}
+
+const isMockResponse = (value: SeatBooking | MockResponse): value is MockResponse => 'status' in value
+
+const notDriver = (action: string) => apiError(403, 'NOT_TRIP_DRIVER', `Only the driver can ${action} this trip.`)
+
+// Stands in for the backend's notifications: each passenger sees the change in their activity
+function notifyPassengers(db: MockDb, trip: MockTripRecord, action: string, details: string) {
+  const timestamp = new Date().toISOString()
+  db.activity.unshift(...trip.passengerIds.map(userId => ({ id: db.nextId(), userId, action, details, timestamp })))
+}
+
+// Nobody else can join once the trip starts or is called off
+function closeTrip(db: MockDb, trip: MockTripRecord) {
+  db.waitlist = db.waitlist.filter(entry => entry.tripId !== trip.id)
+  db.matches
+    .filter(match => match.tripId === trip.id && match.status === 'pending')
+    .forEach(match => Object.assign(match, { status: 'cancelled', respondedAt: new Date().toISOString() }))
+}
+
+function validateTrip(data: Partial<CreateTripData>, partial: boolean): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const check = (key: keyof CreateTripData, field: string, message: string, isValid: boolean) => {
+    if ((!partial || data[key] !== undefined) && !isValid) fields[field] = message
+  }
+  check('from', 'from_location', 'Departure location is required', !!data.from?.trim())
+  check('to', 'to_location', 'Destination is required', !!data.to?.trim())
+  check(
+    'departureTime',
+    'departure_time',
+    'Departure time must be in the future',
+    !!data.departureTime && new Date(data.departureTime).getTime() > Date.now()
+  )
+  check(
+    'maxPassengers',
+    'max_passengers',
+    `Between ${VALIDATION.MIN_PASSENGERS} and ${VALIDATION.MAX_PASSENGERS} passengers`,
+    Number(data.maxPassengers) >= VALIDATION.MIN_PASSENGERS && Number(data.maxPassengers) <= VALIDATION.MAX_PASSENGERS
+  )
+  check(
+    'pricePerPerson',
+    'price_per_person',
+    `Price must be between ${VALIDATION.MIN_PRICE} and ${VALIDATION.MAX_PRICE}`,
+    Number(data.pricePerPerson) >= VALIDATION.MIN_PRICE && Number(data.pricePerPerson) <= VALIDATION.MAX_PRICE
+  )
+  return fields
+}
+
+const ROUTE_TABLE: [string, string, Handler][] = [
+  ['GET', API_ENDPOINTS.HEALTH, () => json(200, { status: 'ok' })],
+
+  // Auth
+  ['POST', API_ENDPOINTS.AUTH.LOGIN, ({ body }, db) => {
+    const user = db.users.find(user => user.email === String(body.email).toLowerCase())
+    if (!user || body.password !== MOCK_PASSWORD) {
+      return apiError(401, 'INVALID_CREDENTIALS', 'Invalid email or password.')
+    }
+    if (user.isSuspended) return apiError(403, 'ACCOUNT_SUSPENDED', 'This account has been suspended.')
+    return json(200, { ...issueTokens(db, user), user })
+  }],
+  ['POST', API_ENDPOINTS.AUTH.REGISTER, ({ body }, db) => {
+    const email = String(body.email ?? '').toLowerCase()
+    if (db.users.some(user => user.email === email)) {
+      return apiError(409, 'EMAIL_TAKEN', 'An account with this email already exists.', {
+        email: 'An account with this email already exists'
+      })
+    }
+    const now = new Date().toISOString()
+    const user: UserWithRole = {
+      id: db.nextId(),
+      name: String(body.name ?? ''),
+      email,
+      phone: String(body.phone ?? ''),
+      role: UserRole.USER,
+      isVerified: false,
+      isEmailVerified: false,
+      createdAt: now,
+      updatedAt: now
+    }
+    db.users.push(user)
+    return json(201, { ...issueTokens(db, user), user })
+  }],
+  ['GET', API_ENDPOINTS.AUTH.ME, authed((_request, _db, viewer) => json(200, viewer))],
+  ['POST', API_ENDPOINTS.AUTH.REFRESH, ({ body }, db) => {
+    const userId = db.refreshTokens.get(String(body.refreshToken))
+    const user = db.users.find(user => user.id === userId)
+    if (!user) return apiError(401, 'INVALID_REFRESH_TOKEN', 'Your session has expired. Please sign in again.')
+    db.refreshTokens.delete(String(body.refreshToken))
+    return json(200, issueTokens(db, user))
+  }],
+  ['POST', API_ENDPOINTS.AUTH.FORGOT_PASSWORD, () =>
+    json(200, { message: 'If an account exists for that email, a reset code is on its way.' })],
+  ['POST', API_ENDPOINTS.AUTH.RESET_PASSWORD, ({ body }) =>
+    body.token === MOCK_RESET_TOKEN
+      ? json(200, { message: 'Your password has been reset.' })
+      : apiError(404, 'INVALID_RESET_TOKEN', 'This reset link is invalid or has expired.')],
+  ['POST', API_ENDPOINTS.AUTH.VERIFY_EMAIL, ({ body }, db) => {
+    if (body.token !== MOCK_VERIFICATION_TOKEN) {
+      return apiError(404, 'INVALID_VERIFICATION_TOKEN', 'This verification link is invalid or has expired.')
+    }
+    // The link doesn't say whose it is, so verify the first unverified account
+    const user = db.users.find(user => user.isEmailVerified === false) ?? db.users[0]
+    user.isEmailVerified = true
+    return json(200, user)
+  }],
+  ['POST', API_ENDPOINTS.AUTH.RESEND_VERIFICATION, authed(() =>
+    json(200, { message: 'Verification email sent. Please check your inbox.' }))],
+  ['GET', API_ENDPOINTS.AUTH.SESSIONS, authed((_request, db, viewer) => json(200, db.sessions[viewer.id] ?? []))],
+  ['DELETE', path(API_ENDPOINTS.AUTH.REVOKE_SESSION), authed(({ params }, db, viewer) => {
+    const sessions = db.sessions[viewer.id] ?? []
+    if (!sessions.some(session => session.id === params.id)) return notFound('Session')
+    db.sessions[viewer.id] = sessions.filter(session => session.id !== params.id)
+    return json(200, { message: 'Session revoked.' })
+  })],
+  ['POST', API_ENDPOINTS.AUTH.LOGOUT_ALL, authed((_request, db, viewer) => {
+    db.sessions[viewer.id] = (db.sessions[viewer.id] ?? []).filter(session => session.isCurrent)
+    return json(200, { message: 'Signed out of all other sessions.' })
+  })],
+
+  // Trips
+  ['GET', API_ENDPOINTS.TRIPS.LIST, (request, db) => {
+    const viewerId = getViewer(request, db)?.id
+    // Open trips, plus the viewer's own in every state so their history stays on the dashboard
+    const trips = db.trips.filter(trip =>
+      getTripPhase(trip) === 'active' ||
+      (viewerId !== undefined && (trip.driverId === viewerId || trip.passengerIds.includes(viewerId)))
+    )
+    return json(200, trips.map(trip => tripResponse(db, trip, viewerId)))
+  }],
+  ['POST', API_ENDPOINTS.TRIPS.SEARCH, (request, db) => {
+    const { from, to, departureDate, maxPrice } = fromSearchPayload(request.body)
+    const matches = (value: string, query?: string) => !query || value.toLowerCase().includes(query.toLowerCase())
+    const viewerId = getViewer(request, db)?.id
+    const trips = db.trips.filter(trip =>
+      getTripPhase(trip) === 'active' &&
+      matches(trip.from, from) &&
+      matches(trip.to, to) &&
+      (!departureDate || trip.departureTime.slice(0, 10) === departureDate) &&
+      (!maxPrice || trip.pricePerPerson <= maxPrice)
+    )
+    return json(200, trips.map(trip => tripResponse(db, trip, viewerId)))
+  }],
+  ['POST', API_ENDPOINTS.TRIPS.CREATE, authed(({ body }, db, viewer) => {
+    if (viewer.isEmailVerified === false) {
+      return apiError(403, 'EMAIL_NOT_VERIFIED', 'Please verify your email before creating trips.')
+    }
+    const data: Partial<CreateTripData> = fromTripPayload(body)
+    const fields = validateTrip(data, false)
+    if (Object.keys(fields).length > 0) return apiError(400, 'VALIDATION_FAILED', 'Please check the trip details.', fields)
+
+    const now = new Date().toISOString()
+    const record: MockTripRecord = {
+      id: db.nextId(),
+      driverId: viewer.id,
+      from: String(data.from),
+      to: String(data.to),
+      departureTime: String(data.departureTime),
+      maxPassengers: Number(data.maxPassengers),
+      pricePerPerson: Number(data.pricePerPerson),
+      description: data.description ?? '',
+      verifiedPassengersOnly: !!data.verifiedPassengersOnly,
+      requiresApproval: !!data.requiresApproval,
+      status: 'active',
+      passengerIds: [],
+      bookings: {},
+      createdAt: now,
+      updatedAt: now
+    }
+    db.trips.push(record)
+    return json(201, tripResponse(db, record, viewer.id))
+  })],
+  ['GET', path(API_ENDPOINTS.TRIPS.GET), (request, db) => {
+    const trip = findTrip(db, request.params.id)
+    return trip ? json(200, tripResponse(db, trip, getViewer(request, db)?.id)) : notFound()
+  }],
+  ['PUT', path(API_ENDPOINTS.TRIPS.UPDATE), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return apiError(403, 'NOT_TRIP_DRIVER', 'Only the driver can edit this trip.')
+    const data: Partial<CreateTripData> = fromTripPayload(body)
+    const fields = validateTrip(data, true)
+    if (Object.keys(fields).length > 0) return apiError(400, 'VALIDATION_FAILED', 'Please check the trip details.', fields)
+    if (data.maxPassengers !== undefined && data.maxPassengers < seatsTaken(trip)) {
+      return apiError(409, 'SEATS_BELOW_BOOKED', 'There are already more passengers booked than that.')
+    }
+    Object.assign(trip, data, { updatedAt: new Date().toISOString() })
+    return json(200, tripResponse(db, trip, viewer.id))
+  })],
+  ['DELETE', path(API_ENDPOINTS.TRIPS.DELETE), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return apiError(403, 'NOT_TRIP_DRIVER', 'Only the driver can delete this trip.')
+    db.trips = db.trips.filter(other => other !== trip)
+    db.matches = db.matches.filter(match => match.tripId !== trip.id)
+    db.waitlist = db.waitlist.filter(entry => entry.tripId !== trip.id)
+    return json(200, { message: 'Trip deleted successfully!' })
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.JOIN), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip || trip.status !== 'active') return notFound()
+    const error = joinError(db, trip, viewer)
+    if (error) return error
+    if (trip.requiresApproval) {
+      return apiError(409, 'APPROVAL_REQUIRED', 'The driver approves every passenger on this trip. Send a request instead.')
+    }
+    const booking = readBooking(body, freeSeats(db, trip))
+    if (isMockResponse(booking)) return booking
+    trip.passengerIds.push(viewer.id)
+    if (booking.seats > 1) trip.bookings[viewer.id] = booking
+    return json(200, { message: 'Successfully joined the trip!' })
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.LEAVE), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip || trip.status !== 'active') return notFound()
+    if (!trip.passengerIds.includes(viewer.id)) return apiError(409, 'NOT_A_PASSENGER', "You're not on this trip.")
+    if (new Date(trip.departureTime).getTime() <= Date.now()) {
+      return apiError(409, 'TRIP_DEPARTED', 'This trip has already left.')
+    }
+    const reason = body.reason as CancellationReason
+    if (!Object.prototype.hasOwnProperty.call(CANCELLATION_REASONS, reason)) {
+      return apiError(400, 'VALIDATION_FAILED', 'Please tell the driver why you are leaving.', { reason: 'Pick a reason' })
+    }
+
+    const isLate = isLateCancellation(trip.departureTime)
+    trip.passengerIds = trip.passengerIds.filter(id => id !== viewer.id)
+    delete trip.bookings[viewer.id]
+    settleWaitlist(db, trip)
+    db.matches
+      .filter(match => match.tripId === trip.id && match.passengerId === viewer.id && match.status === 'confirmed')
+      .forEach(match => Object.assign(match, { status: 'cancelled', respondedAt: new Date().toISOString() }))
+    // Stands in for the backend's notification: it shows up in the driver's activity
+    const note = typeof body.note === 'string' && body.note.trim() ? ` "${body.note.trim()}"` : ''
+    db.activity.unshift({
+      id: db.nextId(),
+      userId: trip.driverId,
+      action: isLate ? 'passenger_left_late' : 'passenger_left',
+      details: `${viewer.name} left ${trip.from} → ${trip.to}${isLate ? ' (late cancellation)' : ''}: ${CANCELLATION_REASONS[reason]}${note}`,
+      timestamp: new Date().toISOString()
+    })
+    return json(200, { message: 'You have left the trip.', isLate })
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.START), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return notDriver('start')
+    if (trip.status !== 'active') return apiError(409, 'TRIP_NOT_ACTIVE', `This trip is already ${trip.status.replace('_', ' ')}.`)
+    if (!canStartTrip(trip)) {
+      const minutes = TRIP_LIFECYCLE.START_WINDOW_MS / 60000
+      return apiError(409, 'TOO_EARLY_TO_START', `You can start the trip up to ${minutes} minutes before it leaves.`)
+    }
+    closeTrip(db, trip)
+    Object.assign(trip, { status: 'in_progress', startedAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+    notifyPassengers(db, trip, 'trip_started', `${viewer.name} started ${trip.from} → ${trip.to}`)
+    return json(200, tripResponse(db, trip, viewer.id))
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.COMPLETE), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return notDriver('complete')
+    if (trip.status !== 'in_progress') return apiError(409, 'TRIP_NOT_STARTED', 'Start the trip before completing it.')
+    Object.assign(trip, { status: 'completed', completedAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+    notifyPassengers(db, trip, 'trip_completed', `You arrived in ${trip.to}. ${viewer.name} completed the trip from ${trip.from}.`)
+    return json(200, tripResponse(db, trip, viewer.id))
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.CANCEL), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return notDriver('cancel')
+    if (trip.status !== 'active') {
+      return apiError(409, 'TRIP_NOT_ACTIVE', `This trip is already ${trip.status.replace('_', ' ')} and can't be cancelled.`)
+    }
+    const reason = body.reason as TripCancellationReason
+    if (!Object.prototype.hasOwnProperty.call(TRIP_CANCELLATION_REASONS, reason)) {
+      return apiError(400, 'VALIDATION_FAILED', 'Please tell your passengers why the trip is cancelled.', { reason: 'Pick a reason' })
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined
+    closeTrip(db, trip)
+    Object.assign(trip, {
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+      cancellationReason: reason,
+      cancellationNote: note,
+      updatedAt: new Date().toISOString()
+    })
+    notifyPassengers(
+      db,
+      trip,
+      'trip_cancelled',
+      `${viewer.name} cancelled ${trip.from} → ${trip.to}: ${TRIP_CANCELLATION_REASONS[reason]}${note ? ` "${note}"` : ''}`
+    )
+    return json(200, tripResponse(db, trip, viewer.id))
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.WAITLIST), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip || trip.status !== 'active') return notFound()
+    const error = joinError(db, trip, viewer, true)
+    if (error) return error
+    if (trip.requiresApproval) {
+      return apiError(409, 'APPROVAL_REQUIRED', 'The driver approves every passenger on this trip. Send a request instead.')
+    }
+    if (db.waitlist.some(entry => entry.tripId === trip.id && entry.passengerId === viewer.id)) {
+      return apiError(409, 'ALREADY_WAITLISTED', "You're already on the waitlist for this trip.")
+    }
+    const booking = readBooking(body)
+    if (isMockResponse(booking)) return booking
+    if (booking.seats > trip.maxPassengers) return notEnoughSeats(trip.maxPassengers)
+    if (booking.seats <= freeSeats(db, trip)) {
+      return apiError(409, 'SEATS_AVAILABLE', 'There are seats free on this trip. Join it instead.')
+    }
+    const entry: MockWaitlistRecord = {
+      tripId: trip.id,
+      passengerId: viewer.id,
+      ...booking,
+      joinedAt: new Date().toISOString()
+    }
+    db.waitlist.push(entry)
+    const { waitlist } = toTripResponse(db, trip, viewer.id)
+    return json(201, waitlist && toWaitlistWire(waitlist))
+  })],
+  ['DELETE', path(API_ENDPOINTS.TRIPS.WAITLIST), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    const entry = db.waitlist.find(entry => entry.tripId === trip.id && entry.passengerId === viewer.id)
+    if (!entry) return notFound('Waitlist entry')
+    db.waitlist = db.waitlist.filter(other => other !== entry)
+    // A declined offer goes to whoever is next
+    settleWaitlist(db, trip)
+    return json(200, { message: "You're off the waitlist." })
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.WAITLIST_ACCEPT), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip || trip.status !== 'active') return notFound()
+    settleWaitlist(db, trip)
+    const entry = db.waitlist.find(entry => entry.tripId === trip.id && entry.passengerId === viewer.id)
+    if (!entry?.offerExpiresAt) {
+      return apiError(409, 'OFFER_EXPIRED', 'This seat offer has expired and went to the next person in line.')
+    }
+    db.waitlist = db.waitlist.filter(other => other !== entry)
+    trip.passengerIds.push(viewer.id)
+    if (entry.seats > 1) trip.bookings[viewer.id] = { seats: entry.seats, companions: entry.companions }
+    return json(200, { message: 'Successfully joined the trip!' })
+  })],
+  ['POST', path(API_ENDPOINTS.TRIPS.REQUESTS), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip || trip.status !== 'active') return notFound()
+    const error = joinError(db, trip, viewer)
+    if (error) return error
+    if (db.matches.some(match => match.tripId === trip.id && match.passengerId === viewer.id && match.status === 'pending')) {
+      return apiError(409, 'REQUEST_PENDING', 'You have already asked to join this trip.')
+    }
+    const booking = readBooking(body, freeSeats(db, trip))
+    if (isMockResponse(booking)) return booking
+    const match: MockMatchRecord = {
+      id: db.nextId(),
+      tripId: trip.id,
+      passengerId: viewer.id,
+      status: 'pending',
+      note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined,
+      ...booking,
+      joinedAt: new Date().toISOString()
+    }
+    db.matches.push(match)
+    return json(201, matchResponse(db, match))
+  })],
+  ['GET', path(API_ENDPOINTS.TRIPS.REQUESTS), authed(({ params }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return apiError(403, 'NOT_TRIP_DRIVER', 'Only the driver can see join requests.')
+    const pending = db.matches.filter(match => match.tripId === trip.id && match.status === 'pending')
+    return json(200, pending.map(match => matchResponse(db, match)))
+  })],
+  ['PUT', path(API_ENDPOINTS.TRIPS.REQUEST), authed(({ params, body }, db, viewer) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    if (trip.driverId !== viewer.id) return apiError(403, 'NOT_TRIP_DRIVER', 'Only the driver can respond to join requests.')
+    const match = db.matches.find(match => match.tripId === trip.id && match.id === Number(params.subId))
+    if (!match) return notFound('Request')
+    if (match.status !== 'pending') return apiError(409, 'REQUEST_NOT_PENDING', 'This request has already been answered.')
+    if (body.status !== 'confirmed' && body.status !== 'declined') {
+      return apiError(400, 'VALIDATION_FAILED', 'Please accept or decline the request.', { status: 'Must be confirmed or declined' })
+    }
+    if (body.status === 'confirmed') {
+      const seats = match.seats ?? 1
+      const remaining = freeSeats(db, trip)
+      if (remaining <= 0) return apiError(409, 'TRIP_FULL', 'This trip is already full.')
+      if (seats > remaining) return notEnoughSeats(remaining)
+      trip.passengerIds.push(match.passengerId)
+      if (seats > 1) trip.bookings[match.passengerId] = { seats, companions: match.companions ?? [] }
+    }
+    Object.assign(match, { status: body.status, respondedAt: new Date().toISOString() })
+    return json(200, matchResponse(db, match))
+  })],
+
+  // Users
+  ['GET', '/users/trips', authed((_request, db, viewer) => {
+    const requested = new Set([
+      ...db.matches.filter(match => match.passengerId === viewer.id).map(match => match.tripId),
+      ...db.waitlist.filter(entry => entry.passengerId === viewer.id).map(entry => entry.tripId)
+    ])
+    const trips = db.trips.filter(trip =>
+      trip.driverId === viewer.id || trip.passengerIds.includes(viewer.id) || requested.has(trip.id)
+    )
+    return json(200, trips.map(trip => tripResponse(db, trip, viewer.id)))
+  })],
+  ['GET', API_ENDPOINTS.USERS.PROFILE, authed((_request, _db, viewer) => json(200, viewer))],
+  ['PUT', API_ENDPOINTS.USERS.UPDATE_PROFILE, authed(({ body }, _db, viewer) => {
+    const { name, phone, profileImage } = body as { name?: string; phone?: string; profileImage?: string }
+    if (name !== undefined && !name.trim()) return apiError(400, 'VALIDATION_FAILED', 'Name is required.', { name: 'Name is required' })
+    // Changing the number means it has to be verified again
+    if (phone !== undefined && phone !== viewer.phone) viewer.isVerified = false
+    Object.assign(viewer, {
+      ...(name !== undefined && { name }),
+      ...(phone !== undefined && { phone }),
+      ...(profileImage !== undefined && { profileImage }),
+      updatedAt: new Date().toISOString()
+    })
+    return json(200, viewer)
+  })],
+  ['POST', API_ENDPOINTS.USERS.PHONE_OTP_REQUEST, authed(() =>
+    json(200, { message: `Verification code sent. Use ${MOCK_OTP_CODE} with the mock API.`, expiresIn: 300 }))],
+  ['POST', API_ENDPOINTS.USERS.PHONE_OTP_VERIFY, authed(({ body }, _db, viewer) => {
+    if (body.code !== MOCK_OTP_CODE) {
+      return apiError(400, 'INVALID_OTP', 'That code is incorrect.', { code: 'That code is incorrect' })
+    }
+    Object.assign(viewer, { phone: String(body.phone ?? viewer.phone), isVerified: true })
+    return json(200, viewer)
+  })],
+  ['GET', API_ENDPOINTS.USERS.ACTIVITY, authed(({ query }, db, viewer) => {
+    const limit = Number(query.limit) || 20
+    return json(200, db.activity.filter(entry => entry.userId === viewer.id).slice(0, limit))
+  })],
+  ['DELETE', API_ENDPOINTS.USERS.DELETE_ACCOUNT, authed(({ body }, _db, viewer) => {
+    if (body.password !== MOCK_PASSWORD) {
+      return apiError(400, 'INVALID_PASSWORD', 'Incorrect password.', { password: 'Incorrect password' })
+    }
+    viewer.isSuspended = true
+    const scheduledDeletionAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+    return json(200, { message: 'Your account is scheduled for deletion.', scheduledDeletionAt })
+  })],
+
+  // Admin
+  ['GET', API_ENDPOINTS.ADMIN.USERS, authed(({ query }, db) => {
+    const page = Number(query.page) || 1
+    const limit = Number(query.limit) || 10
+    const search = (query.name || query.email || '').toLowerCase()
+    const users = db.users.filter(user =>
+      !search || user.name.toLowerCase().includes(search) || user.email.includes(search)
+    )
+    return json(200, { users: users.slice((page - 1) * limit, page * limit), total: users.length, page, limit })
+  }, [UserRole.ADMIN, UserRole.MODERATOR])],
+  ['POST', path(API_ENDPOINTS.ADMIN.VERIFY_USER), authed(({ params }, db) => {
+    const user = db.users.find(user => user.id === Number(params.id))
+    if (!user) return notFound('User')
+    user.isVerified = true
+    return json(200, user)
+  }, [UserRole.ADMIN, UserRole.MODERATOR])],
+  ['PUT', path(API_ENDPOINTS.ADMIN.SUSPEND_USER), authed(({ params, body }, db) => {
+    const user = db.users.find(user => user.id === Number(params.id))
+    if (!user) return notFound('User')
+    user.isSuspended = !!body.suspended
+    return json(200, user)
+  }, [UserRole.ADMIN, UserRole.MODERATOR])],
+  ['GET', API_ENDPOINTS.ADMIN.TRIPS, authed((_request, db) =>
+    json(200, db.trips.map(trip => tripResponse(db, trip))), [UserRole.ADMIN, UserRole.MODERATOR])],
+  ['POST', path(API_ENDPOINTS.ADMIN.CANCEL_TRIP), authed(({ params }, db) => {
+    const trip = findTrip(db, params.id)
+    if (!trip) return notFound()
+    Object.assign(trip, { status: 'cancelled', updatedAt: new Date().toISOString() })
+    return json(200, tripResponse(db, trip))
+  }, [UserRole.ADMIN, UserRole.MODERATOR])]
+]
+
+const routes: MockRoute[] = ROUTE_TABLE.map(([method, pattern, handle]) => ({
+  method,
+  pattern: new RegExp(`^${pattern.replace(/:(\w+)/g, '([^/]+)')}$`),
+  paramNames: Array.from(pattern.matchAll(/:(\w+)/g), match => match[1]),
+  handle
+}))
+
+export function handleMockRequest(request: Omit<MockRequest, 'params'>, db: MockDb): MockResponse {
+  for (const route of routes) {
+    if (route.method !== request.method) continue
+    const match = route.pattern.exec(request.path)
+    if (!match) continue
+    const params = Object.fromEntries(route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])]))
+    return route.handle({ ...request, params }, db)
+  }
+  return apiError(404, 'ROUTE_NOT_FOUND', `The mock API has no route for ${request.method} ${request.path}.`)
+}
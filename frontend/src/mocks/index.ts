@@ -0,0 +1,27 @@
+import { ConfigError, runtimeConfig } from '@/lib/config'
+import { createMockApi, MockApi } from '@/mocks/mockApi'
+import { isMockScenario, MOCK_SCENARIOS } from '@/mocks/scenarios'
+
+export { createMockApi } from '@/mocks/mockApi'
+export type { MockApi, MockApiOptions } from '@/mocks/mockApi'
+export { createMockDb, createMockToken } from '@/mocks/db'
+export type { MockDb } from '@/mocks/db'
+export { MOCK_OTP_CODE, MOCK_PASSWORD, MOCK_RESET_TOKEN, MOCK_VERIFICATION_TOKEN } from '@/mocks/fixtures'
+export { MOCK_SCENARIOS } from '@/mocks/scenarios'
+export type { MockScenarioName } from '@/mocks/scenarios'
+
+let appMockApi: MockApi | null = null
+
+// The instance the app itself talks to when NEXT_PUBLIC_APP_ENV=mock
+export function getAppMockApi(): MockApi {
+  if (!appMockApi) {
+    const { scenario, latencyMs } = runtimeConfig.mock
+    if (!isMockScenario(scenario)) {
+      throw new ConfigError(
+        `NEXT_PUBLIC_MOCK_SCENARIO must be one of ${Object.keys(MOCK_SCENARIOS).join(', ')} (got "${scenario}")`
+      )
+    }
+    appMockApi = createMockApi({ scenario, latencyMs })
+  }
+  return appMockApi
+}
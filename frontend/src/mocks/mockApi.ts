@@ -0,0 +1,138 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios'
+import { runtimeConfig } from '@/lib/config'
+import { sleep } from '@/lib/retry'
+import { createMockDb, MockDb } from '@/mocks/db'
+import { handleMockRequest, MockResponse } from '@/mocks/handlers'
+import { isMockScenario, MOCK_SCENARIOS, MockScenario, MockScenarioName } from '@/mocks/scenarios'
+
+export interface MockApiOptions {
+  scenario?: MockScenarioName
+  // Delay before every response; keep at 0 in tests
+  latencyMs?: number
+  // Paths are matched relative to this URL's path
+  baseUrl?: string
+}
+
+export interface MockApi {
+  // Axios adapter that answers requests from the in-memory db instead of the network
+  adapter: AxiosAdapter
+  readonly db: MockDb
+  readonly scenario: MockScenarioName
+  setScenario: (scenario: MockScenarioName) => void
+  // Fresh fixtures, same scenario; the cold start happens again
+  reset: () => void
+}
+
+function parseBody(data: unknown): Record<string, unknown> {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data)
+    } catch {
+      return {}
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : {}
+}
+
+function toPath(config: InternalAxiosRequestConfig, basePath: string) {
+  const raw = config.url ?? ''
+  // The token refresh passes an absolute URL; everything else is relative to baseURL
+  const absolute = /^https?:\/\//.test(raw)
+    ? raw
+    : `${(config.baseURL ?? '').replace(/\/+$/, '')}${raw.startsWith('/') ? '' : '/'}${raw}`
+  const url = new URL(absolute, 'http://mock.invalid')
+
+  const query: Record<string, string> = Object.fromEntries(url.searchParams)
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query[key] = String(value)
+  })
+
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname
+  return { path: path || '/', query }
+}
+
+// Shape a mock result the way the real adapters would, so interceptors and
+// toApiError can't tell the difference
+function settle(config: InternalAxiosRequestConfig, result: MockResponse): AxiosResponse {
+  if (result.networkError) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {})
+  }
+
+  const response: AxiosResponse = {
+    // Round-trip through JSON so callers can't mutate the db through a response
+    data: result.data === undefined ? '' : JSON.parse(JSON.stringify(result.data)),
+    status: result.status,
+    statusText: String(result.status),
+    headers: new AxiosHeaders({ 'content-type': 'application/json', ...result.headers }),
+    config,
+    request: {}
+  }
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300)
+  if (!validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    )
+  }
+  return response
+}
+
+export function createMockApi({
+  scenario: initialScenario = 'default',
+  latencyMs = 0,
+  baseUrl = runtimeConfig.apiBaseUrl
+}: MockApiOptions = {}): MockApi {
+  const basePath = new URL(baseUrl).pathname.replace(/\/+$/, '')
+  let db = createMockDb()
+  let scenario = initialScenario
+  let isAwake = false
+
+  const adapter: AxiosAdapter = async config => {
+    const signal = config.signal as AbortSignal | undefined
+    const current: MockScenario = MOCK_SCENARIOS[scenario]
+
+    const delay = latencyMs + (isAwake ? 0 : current.coldStartMs ?? 0)
+    isAwake = true
+    if (config.timeout && delay > config.timeout) {
+      await sleep(config.timeout, signal)
+      if (!signal?.aborted) {
+        throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config, {})
+      }
+    } else if (delay > 0) {
+      await sleep(delay, signal)
+    }
+    if (signal?.aborted) throw new CanceledError()
+
+    const { path, query } = toPath(config, basePath)
+    const headers = Object.fromEntries(
+      Object.entries(AxiosHeaders.from(config.headers).toJSON()).map(([key, value]) => [key.toLowerCase(), String(value)])
+    )
+    const request = { method: (config.method ?? 'get').toUpperCase(), path, query, headers, body: parseBody(config.data) }
+
+    const intercepted = current.intercept?.({ ...request, params: {} })
+    return settle(config, intercepted ?? handleMockRequest(request, db))
+  }
+
+  return {
+    adapter,
+    get db() {
+      return db
+    },
+    get scenario() {
+      return scenario
+    },
+    setScenario(next) {
+      if (!isMockScenario(next)) throw new Error(`Unknown mock scenario "${next}"`)
+      scenario = next
+      isAwake = false
+    },
+    reset() {
+      db = createMockDb()
+      isAwake = false
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { API_ENDPOINTS } from '@/lib/constants'
+import { apiError, MockRequest, MockResponse } from '@/mocks/handlers'
+
+export interface MockScenario {
+  description: string
+  // Runs before routing; return a response to short-circuit the request
+  intercept?: (request: MockRequest) => MockResponse | undefined
+  // Hold the first response this long, like a sleeping Render instance
+  coldStartMs?: number
+}
+
+const JOIN_PATH = /^\/trips\/[^/]+\/join$/
+
+// Requests that don't need a session, so they keep working in the expired-token scenario
+const PUBLIC_PATHS: string[] = [
+  API_ENDPOINTS.HEALTH,
+  API_ENDPOINTS.AUTH.LOGIN,
+  API_ENDPOINTS.AUTH.REGISTER,
+  API_ENDPOINTS.AUTH.FORGOT_PASSWORD,
+  API_ENDPOINTS.AUTH.RESET_PASSWORD
+]
+
+export const MOCK_SCENARIOS = {
+  default: {
+    description: 'Seeded users and trips; everything works'
+  },
+  'full-trip': {
+    description: 'Every join loses the race for the last seat (409 TRIP_FULL)',
+    intercept: ({ method, path }) =>
+      method === 'POST' && JOIN_PATH.test(path)
+        ? apiError(409, 'TRIP_FULL', 'This trip is already full.')
+        : undefined
+  },
+  'expired-token': {
+    description: 'The server rejects every session and refresh token, so signed in requests fail with 401',
+    intercept: ({ path }) =>
+      PUBLIC_PATHS.includes(path)
+        ? undefined
+        : apiError(401, 'TOKEN_EXPIRED', 'Your session has expired. Please sign in again.')
+  },
+  'server-down': {
+    description: 'Every request fails with 503, as if the backend never came up',
+    intercept: () => apiError(503, 'SERVICE_UNAVAILABLE', 'Service unavailable.')
+  },
+  offline: {
+    description: 'Every request fails with no response, as if the connection dropped',
+    intercept: () => ({ status: 0, networkError: true })
+  },
+  'cold-start': {
+    description: 'The first request takes 8 seconds while the server "wakes up"',
+    coldStartMs: 8000
+  }
+} satisfies Record<string, MockScenario>
+
+export type MockScenarioName = keyof typeof MOCK_SCENARIOS
+
+export function isMockScenario(name: string): name is MockScenarioName {
+  return Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, name)
+}
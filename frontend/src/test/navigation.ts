@@ -0,0 +1,37 @@
+import { vi } from 'vitest'
+
+// Stand-in for next/navigation, which only works inside the Next.js app router.
+// Tests read the spies to assert on navigation and set the URL before rendering.
+export const mockRouter = {
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn()
+}
+
+export const mockLocation = {
+  pathname: '/',
+  searchParams: new URLSearchParams()
+}
+
+export function setMockUrl(url: string) {
+  const parsed = new URL(url, 'http://localhost')
+  mockLocation.pathname = parsed.pathname
+  mockLocation.searchParams = parsed.searchParams
+}
+
+export function resetMockNavigation() {
+  Object.values(mockRouter).forEach(spy => spy.mockReset())
+  setMockUrl('/')
+}
+
+export const navigationModule = {
+  useRouter: () => mockRouter,
+  usePathname: () => mockLocation.pathname,
+  useSearchParams: () => mockLocation.searchParams,
+  useParams: () => ({}),
+  redirect: vi.fn(),
+  notFound: vi.fn()
+}
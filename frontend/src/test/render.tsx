@@ -0,0 +1,64 @@
+import { render, RenderOptions } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { vi } from 'vitest'
+import { AuthProvider } from '@/hooks/useAuth'
+import { Toaster } from '@/components/ui/Toaster'
+import { storeAuthTokens } from '@/lib/auth'
+import { createMockToken, getAppMockApi } from '@/mocks'
+import { toTripResponse } from '@/mocks/db'
+import { Trip } from '@/types/trip'
+import { UserWithRole } from '@/types/user'
+
+// The mock API instance the app is talking to in this test
+export const mockApi = () => getAppMockApi()
+
+export function findMockUser(email: string): UserWithRole {
+  const user = mockApi().db.users.find(candidate => candidate.email === email)
+  if (!user) throw new Error(`No fixture user with email ${email}`)
+  return user
+}
+
+// Store tokens for a fixture user, as if they had signed in earlier
+export function signInAs(
+  email: string,
+  { expiresInSeconds = 60 * 60, withRefreshToken = true }: { expiresInSeconds?: number; withRefreshToken?: boolean } = {}
+): UserWithRole {
+  const user = findMockUser(email)
+  let refreshToken: string | undefined
+  if (withRefreshToken) {
+    refreshToken = `mock-refresh-${user.id}-test`
+    mockApi().db.refreshTokens.set(refreshToken, user.id)
+  }
+  storeAuthTokens(createMockToken(user, expiresInSeconds), refreshToken)
+  return user
+}
+
+// A fixture trip as the API would return it to the given user
+export function getMockTrip(tripId: number, viewerEmail?: string): Trip {
+  const record = mockApi().db.trips.find(trip => trip.id === tripId)
+  if (!record) throw new Error(`No fixture trip with id ${tripId}`)
+  return toTripResponse(mockApi().db, record, viewerEmail ? findMockUser(viewerEmail).id : undefined)
+}
+
+function Providers({ children }: { children: React.ReactNode }) {
+  return (
+    <AuthProvider>
+      {children}
+      <Toaster />
+    </AuthProvider>
+  )
+}
+
+// Render inside the same providers as the root layout, with a user-event instance
+// that also works when the test has switched to fake timers
+export function renderWithProviders(ui: React.ReactElement, options?: Omit<RenderOptions, 'wrapper'>) {
+  return {
+    user: userEvent.setup({
+      advanceTimers: ms => {
+        if (vi.isFakeTimers()) vi.advanceTimersByTime(ms)
+      }
+    }),
+    ...render(ui, { wrapper: Providers, ...options })
+  }
+}
+
@@ -0,0 +1,26 @@
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach, beforeEach, vi } from 'vitest'
+import { getAppMockApi } from '@/mocks'
+import { clearQueryCache } from '@/lib/queryCache'
+import { dismissToast, getToasts } from '@/lib/toast'
+import { resetMockNavigation } from '@/test/navigation'
+
+vi.mock('next/navigation', async () => (await import('@/test/navigation')).navigationModule)
+
+// Auth events fall back to localStorage, so no BroadcastChannel handles outlive a test
+vi.stubGlobal('BroadcastChannel', undefined)
+
+beforeEach(() => {
+  localStorage.clear()
+  getAppMockApi().reset()
+  getAppMockApi().setScenario('default')
+  resetMockNavigation()
+})
+
+afterEach(() => {
+  cleanup()
+  clearQueryCache()
+  getToasts().forEach(toast => dismissToast(toast.id))
+  vi.useRealTimers()
+})
@@ -28,6 +28,15 @@ export interface RefreshTokenResponse {
   refreshToken: string
 }
 
+export interface ForgotPasswordData {
+  email: string
+}
+
+export interface ResetPasswordData {
+  token: string
+  password: string
+}
+
 export interface AuthContextType {
   user: User | null
   login: (credentials: LoginCredentials) => Promise<void>
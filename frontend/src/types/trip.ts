@@ -1,4 +1,4 @@
-import { User } from './user'
+import { TripMember } from './user'
 
 export interface Trip {
   id: number
@@ -10,12 +10,59 @@ export interface Trip {
   currentPassengers: number
   pricePerPerson: number
   description?: string
-  status: 'active' | 'completed' | 'cancelled'
+  status: TripStatus
   createdAt: string
   updatedAt: string
-  driver?: User
-  passengers?: User[]
+  driver?: TripMember
+  passengers?: TripMember[]
   userRole?: 'driver' | 'passenger' | 'none' 
+  verifiedPassengersOnly?: boolean
+  // Passengers send a request and the driver accepts or declines it
+  requiresApproval?: boolean
+  // Only sent to the driver
+  pendingRequests?: number
+  // The viewer's own join request, for trips they have asked to join
+  requestStatus?: TripMatchStatus
+  // Seats the viewer holds, counting their companions
+  seatsBooked?: number
+  // Only sent to the driver; passengers without a booking hold one seat
+  bookings?: TripBooking[]
+  // Freed seats offered to the waitlist; nobody else can book them until the offer runs out
+  seatsOnHold?: number
+  waitlistLength?: number
+  // The viewer's place on the waitlist
+  waitlist?: WaitlistEntry
+  startedAt?: string
+  completedAt?: string
+  cancelledAt?: string
+  // Why the driver called the trip off, shown to its passengers
+  cancellationReason?: TripCancellationReason
+  cancellationNote?: string
+}
+
+// The driver starts the trip, then completes it; an active trip can be cancelled until it starts
+export type TripStatus = 'active' | 'in_progress' | 'completed' | 'cancelled'
+
+export interface WaitlistEntry {
+  // 'offered' once a seat frees up; the viewer has until offerExpiresAt to take it
+  status: 'waiting' | 'offered'
+  seats: number
+  // 1 is next in line; only sent while waiting
+  position?: number
+  offerExpiresAt?: string
+}
+
+// One passenger's seats; currentPassengers counts seats, not accounts
+export interface TripBooking {
+  passengerId: number
+  seats: number
+  // Names of the people travelling with the passenger, one per extra seat
+  companions: string[]
+}
+
+export interface JoinTripData {
+  seats: number
+  companions?: string[]
 }
 
 export interface CreateTripData {
@@ -25,6 +72,8 @@ export interface CreateTripData {
   maxPassengers: number
   pricePerPerson: number
   description?: string
+  verifiedPassengersOnly?: boolean
+  requiresApproval?: boolean
 }
 
 export interface UpdateTripData {
@@ -34,6 +83,34 @@ export interface UpdateTripData {
   maxPassengers?: number
   pricePerPerson?: number
   description?: string
+  verifiedPassengersOnly?: boolean
+  requiresApproval?: boolean
+}
+
+export type CancellationReason = 'plans_changed' | 'found_other_ride' | 'schedule_conflict' | 'emergency' | 'other'
+
+export interface LeaveTripData {
+  reason: CancellationReason
+  note?: string
+}
+
+export type TripCancellationReason =
+  | 'vehicle_issue'
+  | 'schedule_change'
+  | 'not_enough_passengers'
+  | 'weather'
+  | 'emergency'
+  | 'other'
+
+export interface CancelTripData {
+  reason: TripCancellationReason
+  note?: string
+}
+
+export interface LeaveTripResult {
+  message: string
+  // Left inside the late cancellation window; the driver is told so
+  isLate: boolean
 }
 
 export interface SearchTripsData {
@@ -45,14 +122,22 @@ export interface SearchTripsData {
   offset?: number
 }
 
+export type TripMatchStatus = 'pending' | 'confirmed' | 'declined' | 'cancelled'
+
+// A passenger's request to join a trip that requires approval
 export interface TripMatch {
   id: number
   tripId: number
   passengerId: number
-  status: 'pending' | 'confirmed' | 'cancelled'
+  status: TripMatchStatus
+  note?: string
+  seats?: number
+  companions?: string[]
+  // When the request was sent
   joinedAt: string
+  respondedAt?: string
   trip?: Trip
-  passenger?: User
+  passenger?: TripMember
 }
 
 export interface TripStats {
@@ -6,11 +6,21 @@ export interface User {
   phone: string;
   profileImage?: string;
   isVerified: boolean;
+  isEmailVerified?: boolean;
+  role?: UserRole; // Present for staff accounts; regular users may omit it
   createdAt: string;
   updatedAt: string;
   password?: string; // Only present during registration/login, removed in responses
 }
 
+// What the access token says about the user: enough for the page chrome, not for forms
+// or permission checks, which wait for the full User from /auth/me
+export type ProvisionalUser = Pick<User, 'id' | 'name' | 'email'>;
+
+// A driver or passenger embedded in a trip; the backend trims contact details and
+// timestamps it doesn't share with the viewer
+export type TripMember = Pick<User, 'id' | 'name'> & Partial<Omit<User, 'id' | 'name' | 'password'>>;
+
 // User registration data
 export interface RegisterUserData {
   name: string;
@@ -50,6 +60,7 @@ export interface UserSearchCriteria {
   name?: string;
   email?: string;
   isVerified?: boolean;
+  role?: UserRole;
   createdAfter?: string;
   createdBefore?: string;
 }
@@ -91,6 +102,7 @@ export enum UserRole {
 // User with role
 export interface UserWithRole extends User {
   role: UserRole;
+  isSuspended?: boolean;
 }
 
 // API response types
@@ -100,7 +112,7 @@ export interface UserResponse {
 }
 
 export interface UsersListResponse {
-  users: User[];
+  users: UserWithRole[];
   total: number;
   page: number;
   limit: number;
@@ -115,6 +127,12 @@ export interface UserFormErrors {
   general?: string;
 }
 
+// Phone verification (OTP) responses
+export interface PhoneOtpResponse {
+  message: string;
+  expiresIn?: number; // Seconds until the code expires
+}
+
 // User activity log (for future features)
 export interface UserActivity {
   id: number;
@@ -124,3 +142,26 @@ export interface UserActivity {
   timestamp: string;
   ipAddress?: string;
 }
+
+// Logged-in device/session for the account security page
+export interface UserSession {
+  id: string;
+  device: string;
+  browser?: string;
+  ipAddress?: string;
+  location?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+// Account deletion request/response
+export interface DeleteAccountData {
+  password: string;
+  cancelActiveTrips: boolean; // Cancel (and notify passengers of) trips the user still drives
+}
+
+export interface DeleteAccountResponse {
+  message: string;
+  scheduledDeletionAt: string;
+}
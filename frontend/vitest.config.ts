@@ -0,0 +1,22 @@
+import path from 'path'
+import react from '@vitejs/plugin-react'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') }
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    // The app runs against the in-repo mock API; see src/mocks
+    env: {
+      NEXT_PUBLIC_APP_ENV: 'mock',
+      NEXT_PUBLIC_MOCK_LATENCY_MS: '0',
+      NEXT_PUBLIC_API_MAX_RETRIES: '0',
+      NEXT_PUBLIC_FEATURE_WARM_UP: 'false',
+      NEXT_PUBLIC_FEATURE_OFFLINE: 'false'
+    }
+  }
+})